@@ -3,6 +3,7 @@
 import React from 'react';
 import { useRouter } from 'next/navigation';
 import { useGetEventsByIdQuery } from '@/redux/features/api/event/eventApi';
+import WebhookSettings from '@/components/pages/event/WebhookSettings';
 
 export default function EventDetailsPage({ params }: { params: Promise<{ id: string }> }) {
   const resolvedParams = React.use(params);
@@ -222,6 +223,30 @@ export default function EventDetailsPage({ params }: { params: Promise<{ id: str
             ))}
           </div>
         </div>
+
+        <div className="mt-8">
+          <h2 className="text-xl font-semibold text-white mb-4">Escalation Policy</h2>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <p className="text-sm text-gray-400">Enabled</p>
+              <p className="text-white">{event.escalationPolicy?.enabled ? 'Yes' : 'No'}</p>
+            </div>
+            {event.escalationPolicy?.enabled && (
+              <div>
+                <p className="text-sm text-gray-400">Acknowledge Window</p>
+                <p className="text-white">{event.escalationPolicy.acknowledgeWindow}</p>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="mt-8">
+          <h2 className="text-xl font-semibold text-white mb-4">Webhooks</h2>
+          <WebhookSettings
+            eventId={resolvedParams.id}
+            enabled={event.sentimentTracking.alertMethods.includes('webhook')}
+          />
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,52 @@
+import React from 'react';
+import { useGetSentimentAspectsQuery } from '@/redux/features/api/sentiment/sentimentApi';
+
+interface AspectBreakdownProps {
+    eventId?: string;
+    from: number;
+    to: number;
+}
+
+// Aspects mentioned in feedback, the one dragging sentiment down most first
+export const AspectBreakdown: React.FC<AspectBreakdownProps> = ({ eventId, from, to }) => {
+    const { data, isLoading } = useGetSentimentAspectsQuery(
+        { eventId: eventId || '', from: new Date(from).toISOString(), to: new Date(to).toISOString() },
+        { skip: !eventId }
+    );
+    const aspects = data?.data || [];
+    const worst = aspects[0];
+
+    return (
+        <div className="bg-gray-800 border border-gray-700/40 rounded-lg p-4 hover:border-gray-600/50 transition-colors duration-300">
+            <h3 className="font-medium mb-1">Sentiment by Aspect</h3>
+            {worst && worst.impact < 0 && (
+                <p className="text-xs text-gray-400 mb-3">
+                    <span className="text-red-400">{worst.label}</span> is dragging sentiment down the most
+                </p>
+            )}
+            {isLoading && <p className="text-sm text-gray-400">Loading...</p>}
+            {!isLoading && !aspects.length && <p className="text-sm text-gray-400">No aspects mentioned yet</p>}
+            <div className="space-y-3">
+                {aspects.map((aspect) => {
+                    const percent = (value: number) => `${(value / aspect.count) * 100}%`;
+                    return (
+                        <div key={aspect.aspect}>
+                            <div className="flex justify-between text-xs mb-1">
+                                <span className="text-gray-300">{aspect.label}</span>
+                                <span className={aspect.average < 0 ? 'text-red-400' : 'text-green-400'}>
+                                    {aspect.average > 0 ? '+' : ''}
+                                    {aspect.average.toFixed(2)} · {aspect.count} mentions
+                                </span>
+                            </div>
+                            <div className="flex h-2 rounded-full overflow-hidden bg-gray-700">
+                                <div className="bg-red-400" style={{ width: percent(aspect.polarities.negative) }} />
+                                <div className="bg-yellow-400" style={{ width: percent(aspect.polarities.neutral) }} />
+                                <div className="bg-green-400" style={{ width: percent(aspect.polarities.positive) }} />
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
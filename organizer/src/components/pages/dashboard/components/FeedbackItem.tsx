@@ -1,32 +1,96 @@
+import { useState } from "react";
 import Image from "next/image";
+import { useLazyExplainSentimentQuery } from "@/redux/features/api/sentiment/sentimentApi";
+import { SentimentExplanation } from "@/types/sentiment";
 
-export const FeedbackItem: React.FC<Feedback> = ({ username, avatar, time, text, sentiment, source, sourceIcon }) => (
-    <div className={`border rounded-lg p-3 ${sentiment === 'positive' ? 'border-green-500/20 bg-green-500/10' : sentiment === 'gray' ? 'border-yellow-500/20 bg-yellow-500/10' : 'border-red-500/20 bg-red-500/10'}`}>
-        <div className="flex justify-between items-start">
-            <div className="flex items-start">
-                <Image
-                    src={avatar}
-                    alt={`${username} avatar`}
-                    width={32}
-                    height={32}
-                    className="rounded-full mr-3 border border-gray-600"
-                    onError={(e) => { e.currentTarget.src = 'https://placehold.co/100x100'; }}
-                />
-                <div>
-                    <div className="flex items-center">
-                        <h4 className="text-sm font-medium">{username}</h4>
-                        <span className="ml-2 text-xs text-gray-400">{time}</span>
+// Words whose attribution is below this share of the strongest one stay unhighlighted
+const MIN_HIGHLIGHT_SHARE = 0.15;
+
+const HighlightedText: React.FC<{ text: string; explanation: SentimentExplanation }> = ({ text, explanation }) => {
+    const strongest = Math.max(...explanation.tokens.map(({ weight }) => Math.abs(weight)), 0);
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+
+    explanation.tokens.forEach(({ token, start, end, weight }) => {
+        const share = strongest ? Math.abs(weight) / strongest : 0;
+        if (share < MIN_HIGHLIGHT_SHARE) return;
+
+        parts.push(text.slice(cursor, start));
+        parts.push(
+            <mark
+                key={start}
+                title={`${weight > 0 ? '+' : ''}${weight.toFixed(2)}`}
+                className="rounded px-0.5 text-inherit"
+                style={{ backgroundColor: weight > 0 ? `rgba(34, 197, 94, ${0.6 * share})` : `rgba(239, 68, 68, ${0.6 * share})` }}
+            >
+                {token}
+            </mark>
+        );
+        cursor = end;
+    });
+    parts.push(text.slice(cursor));
+
+    return <>{parts}</>;
+};
+
+export const FeedbackItem: React.FC<Feedback> = ({ username, avatar, time, text, sentiment, source, sourceIcon, explanation }) => {
+    const [showExplanation, setShowExplanation] = useState(false);
+    const [explain, { data, isFetching, isError }] = useLazyExplainSentimentQuery();
+    const attributions = explanation || data?.explanation;
+
+    const toggleExplanation = () => {
+        if (!showExplanation && !attributions) explain(text, true);
+        setShowExplanation(!showExplanation);
+    };
+
+    return (
+        <div className={`border rounded-lg p-3 ${sentiment === 'positive' ? 'border-green-500/20 bg-green-500/10' : sentiment === 'gray' ? 'border-yellow-500/20 bg-yellow-500/10' : 'border-red-500/20 bg-red-500/10'}`}>
+            <div className="flex justify-between items-start">
+                <div className="flex items-start">
+                    <Image
+                        src={avatar}
+                        alt={`${username} avatar`}
+                        width={32}
+                        height={32}
+                        className="rounded-full mr-3 border border-gray-600"
+                        onError={(e) => { e.currentTarget.src = 'https://placehold.co/100x100'; }}
+                    />
+                    <div>
+                        <div className="flex items-center">
+                            <h4 className="text-sm font-medium">{username}</h4>
+                            <span className="ml-2 text-xs text-gray-400">{time}</span>
+                        </div>
+                        <p className="text-sm mt-1">
+                            {showExplanation && attributions ? <HighlightedText text={text} explanation={attributions} /> : text}
+                        </p>
                     </div>
-                    <p className="text-sm mt-1">{text}</p>
                 </div>
+                <span className={`text-xs py-1 px-2 rounded-full ${sentiment === 'positive' ? 'bg-green-500/20 text-green-400' : sentiment === 'gray' ? 'bg-yellow-500/20 text-yellow-400' : 'bg-red-500/20 text-red-400'}`}>
+                    {sentiment.charAt(0).toUpperCase() + sentiment.slice(1)}
+                </span>
             </div>
-            <span className={`text-xs py-1 px-2 rounded-full ${sentiment === 'positive' ? 'bg-green-500/20 text-green-400' : sentiment === 'gray' ? 'bg-yellow-500/20 text-yellow-400' : 'bg-red-500/20 text-red-400'}`}>
-                {sentiment.charAt(0).toUpperCase() + sentiment.slice(1)}
-            </span>
-        </div>
-        <div className="flex items-center text-xs text-gray-400 mt-2">
-            {sourceIcon}
-            {source}
+            <div className="flex items-center text-xs text-gray-400 mt-2">
+                {sourceIcon}
+                {source}
+                <button
+                    type="button"
+                    onClick={toggleExplanation}
+                    className="ml-auto text-gray-400 hover:text-white"
+                >
+                    {showExplanation ? 'Hide words' : 'Why?'}
+                </button>
+            </div>
+            {showExplanation && (isFetching || isError || attributions) && (
+                <p className="text-xs text-gray-500 mt-1">
+                    {isFetching
+                        ? 'Explaining…'
+                        : isError
+                            ? 'Explanation unavailable'
+                            : attributions?.method === 'occlusion'
+                                ? 'Highlighted words moved the model score the most'
+                                : 'Highlighted words carried the lexicon score (model unavailable)'}
+                </p>
+            )}
         </div>
-    </div>
-);
\ No newline at end of file
+    );
+};
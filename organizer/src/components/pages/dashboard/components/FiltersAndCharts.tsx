@@ -1,14 +1,156 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
+import { useSelector } from 'react-redux';
 import { Line, Pie } from 'react-chartjs-2';
+import { ChartType, Plugin } from 'chart.js';
+import { useGetSentimentShiftsQuery } from '@/redux/features/api/sentimentShift/sentimentShiftApi';
+import { useGetSentimentHistoryQuery } from '@/redux/features/api/sentiment/sentimentApi';
+import { useGetEventsByUserIdQuery } from '@/redux/features/api/event/eventApi';
+import { SentimentShift } from '@/types/sentimentShift';
+import { SentimentGranularity } from '@/types/sentiment';
+import { AspectBreakdown } from './AspectBreakdown';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+type RangeTab = 'Day' | 'Week' | 'Month';
+
+const RANGES: Record<RangeTab, { ms: number; granularity: SentimentGranularity; bucketMs: number; title: string }> = {
+    Day: { ms: DAY_MS, granularity: '15m', bucketMs: HOUR_MS / 4, title: 'Last 24 Hours' },
+    Week: { ms: 7 * DAY_MS, granularity: '1h', bucketMs: HOUR_MS, title: 'Last 7 Days' },
+    Month: { ms: 30 * DAY_MS, granularity: '1d', bucketMs: DAY_MS, title: 'Last 30 Days' },
+};
+
+const AXIS_LABELS = 7;
+
+interface DashboardEvent {
+    _id: string;
+    name: string;
+    startDate: string;
+    endDate: string;
+}
+
+interface ShiftAnnotationOptions {
+    shifts: SentimentShift[];
+    from: number;
+    to: number;
+}
+
+declare module 'chart.js' {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    interface PluginOptionsByType<TType extends ChartType> {
+        shiftAnnotations?: ShiftAnnotationOptions;
+    }
+}
+
+// Draws a dashed marker with the shift size at the time each sentiment shift was detected.
+// Shifts come in through plugin options because react-chartjs-2 only reads plugins on mount.
+const shiftAnnotations: Plugin<'line', ShiftAnnotationOptions> = {
+    id: 'shiftAnnotations',
+    afterDatasetsDraw(chart, _args, { shifts = [], from, to }) {
+        const { ctx, chartArea } = chart;
+        shifts.forEach((shift) => {
+            const fraction = (new Date(shift.createdAt).getTime() - from) / (to - from);
+            if (fraction < 0 || fraction > 1) return;
+
+            const x = chartArea.left + fraction * (chartArea.right - chartArea.left);
+            const color = shift.direction === 'negative' ? '#f87171' : '#4ade80';
+
+            ctx.save();
+            ctx.strokeStyle = color;
+            ctx.setLineDash([4, 4]);
+            ctx.beginPath();
+            ctx.moveTo(x, chartArea.top + 14);
+            ctx.lineTo(x, chartArea.bottom);
+            ctx.stroke();
+            ctx.setLineDash([]);
+            ctx.fillStyle = color;
+            ctx.font = '10px sans-serif';
+            ctx.textAlign = 'center';
+            ctx.fillText(`${shift.direction === 'negative' ? '▼' : '▲'}${Math.round(shift.magnitude)}`, x, chartArea.top + 10);
+            ctx.restore();
+        });
+    },
+};
 
 export const FiltersAndCharts: React.FC = () => {
-    const [activeTab, setActiveTab] = useState('Day');
+    const [activeTab, setActiveTab] = useState<RangeTab>('Day');
+    const [rangeEnd] = useState(() => Date.now());
+    const range = RANGES[activeTab];
+    const rangeStart = rangeEnd - range.ms;
+
+    const { user } = useSelector((state: { auth: { user?: { _id: string } } }) => state.auth);
+    const { data: eventsResponse } = useGetEventsByUserIdQuery(user?._id || '', { skip: !user?._id });
+    const events: DashboardEvent[] = eventsResponse?.data || [];
+    // Default to a running event, otherwise the first one
+    const defaultEvent =
+        events.find((event) => new Date(event.startDate).getTime() <= rangeEnd && new Date(event.endDate).getTime() >= rangeEnd) ||
+        events[0];
+    const [selectedEventId, setSelectedEventId] = useState<string>();
+    const eventId = selectedEventId || defaultEvent?._id;
+
+    const { data: historyData } = useGetSentimentHistoryQuery(
+        {
+            eventId: eventId || '',
+            from: new Date(rangeStart).toISOString(),
+            to: new Date(rangeEnd).toISOString(),
+            granularity: range.granularity,
+        },
+        { skip: !eventId }
+    );
+    const { data: shiftData } = useGetSentimentShiftsQuery({ event: eventId, from: new Date(rangeStart).toISOString() });
+    const shifts = shiftData?.shifts || [];
+    const latestShift = shifts[shifts.length - 1];
+
+    // One slot per bucket across the whole range so gaps stay gaps and the x axis is linear in time
+    const series = useMemo(() => {
+        const byTimestamp = new Map((historyData?.data || []).map((bucket) => [bucket.timestamp, bucket]));
+        const first = Math.floor(rangeStart / range.bucketMs) * range.bucketMs;
+        const slots: number[] = [];
+        for (let timestamp = first; timestamp < rangeEnd; timestamp += range.bucketMs) slots.push(timestamp);
+        const percent = (timestamp: number, key: 'positive' | 'neutral' | 'negative') => {
+            const bucket = byTimestamp.get(timestamp);
+            return bucket ? Math.round(bucket[key] * 1000) / 10 : null;
+        };
+        // Buckets stored before the analyzer was recorded have no analyzers counts
+        const lexicon = (historyData?.data || []).reduce((total, bucket) => total + (bucket.analyzers?.lexicon || 0), 0);
+        const count = (historyData?.data || []).reduce((total, bucket) => total + bucket.count, 0);
+        return {
+            slots,
+            degradedPercent: count ? Math.round((lexicon / count) * 100) : 0,
+            positive: slots.map((timestamp) => percent(timestamp, 'positive')),
+            neutral: slots.map((timestamp) => percent(timestamp, 'neutral')),
+            negative: slots.map((timestamp) => percent(timestamp, 'negative')),
+        };
+    }, [historyData, rangeStart, rangeEnd, range.bucketMs]);
+
+    const formatSlot = (timestamp: number) =>
+        activeTab === 'Day'
+            ? new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+            : new Date(timestamp).toLocaleDateString([], { month: 'short', day: 'numeric' });
+    const axisLabels = Array.from({ length: AXIS_LABELS }, (_, index) =>
+        index === AXIS_LABELS - 1
+            ? 'Now'
+            : formatSlot(series.slots[Math.round((index * (series.slots.length - 1)) / (AXIS_LABELS - 1))])
+    );
     return  <div className="flex flex-col lg:flex-row gap-6 mb-6">
     <div className="bg-gray-800 border border-gray-700/40 rounded-lg p-4 lg:w-2/3 hover:border-gray-600/50 transition-colors duration-300">
         <div className="flex justify-between items-center mb-4">
-            <h3 className="font-medium">Sentiment Trend (Last 24 Hours)</h3>
+            <h3 className="font-medium">Sentiment Trend ({range.title})</h3>
             <div className="flex space-x-2">
-                {['Day', 'Week', 'Month'].map((tab) => (
+                {events.length > 1 && (
+                    <select
+                        value={eventId}
+                        onChange={(e) => setSelectedEventId(e.target.value)}
+                        className="bg-gray-900 border border-gray-700 rounded-md px-2 py-1 text-xs text-gray-300"
+                    >
+                        {events.map((event) => (
+                            <option key={event._id} value={event._id}>
+                                {event.name}
+                            </option>
+                        ))}
+                    </select>
+                )}
+                {(Object.keys(RANGES) as RangeTab[]).map((tab) => (
                     <button
                         key={tab}
                         className={`py-1 px-2 text-xs rounded-md ${activeTab === tab ? 'bg-gray-700 text-white' : 'bg-gray-900 text-gray-400 hover:bg-gray-700'}`}
@@ -29,26 +171,33 @@ export const FiltersAndCharts: React.FC = () => {
             </div>
             <div className="absolute left-10 right-0 top-0 h-full">
                 <Line
+                    plugins={[shiftAnnotations]}
                     data={{
-                        labels: ['00:00', '04:00', '08:00', '12:00', '16:00', '20:00', 'Now'],
+                        labels: series.slots.map(formatSlot),
                         datasets: [
                             {
-                                label: 'Dataset 1',
-                                data: [80, 70, 60, 50, 45, 40, 20],
+                                label: 'Positive',
+                                data: series.positive,
                                 borderColor: '#4ade80',
                                 tension: 0.4,
+                                pointRadius: 0,
+                                spanGaps: true,
                             },
                             {
-                                label: 'Dataset 2',
-                                data: [120, 125, 130, 125, 110, 115, 110],
+                                label: 'Neutral',
+                                data: series.neutral,
                                 borderColor: '#facc15',
                                 tension: 0.4,
+                                pointRadius: 0,
+                                spanGaps: true,
                             },
                             {
-                                label: 'Dataset 3',
-                                data: [160, 155, 150, 160, 160, 165, 160],
+                                label: 'Negative',
+                                data: series.negative,
                                 borderColor: '#f87171',
                                 tension: 0.4,
+                                pointRadius: 0,
+                                spanGaps: true,
                             },
                         ],
                     }}
@@ -62,6 +211,11 @@ export const FiltersAndCharts: React.FC = () => {
                             tooltip: {
                                 enabled: false,
                             },
+                            shiftAnnotations: {
+                                shifts,
+                                from: series.slots[0],
+                                to: series.slots[series.slots.length - 1],
+                            },
                         },
                         scales: {
                             x: {
@@ -80,20 +234,16 @@ export const FiltersAndCharts: React.FC = () => {
                                     display: false,
                                 },
                                 min: 0,
-                                max: 200,
+                                max: 100,
                             },
                         },
                     }}
                 />
             </div>
             <div className="absolute left-10 right-0 bottom-0 flex justify-between text-xs text-gray-400 pt-2">
-                <div>00:00</div>
-                <div>04:00</div>
-                <div>08:00</div>
-                <div>12:00</div>
-                <div>16:00</div>
-                <div>20:00</div>
-                <div>Now</div>
+                {axisLabels.map((label, index) => (
+                    <div key={index}>{label}</div>
+                ))}
             </div>
         </div>
         <div className="flex items-center justify-center mt-4 space-x-6">
@@ -110,6 +260,19 @@ export const FiltersAndCharts: React.FC = () => {
                 <span className="text-sm">Negative</span>
             </div>
         </div>
+        {series.degradedPercent > 0 && (
+            <p className="text-xs text-yellow-400 text-center mt-2">
+                {series.degradedPercent}% of feedback in this range was scored by the fallback lexicon analyzer and may be less accurate
+            </p>
+        )}
+        {latestShift && (
+            <p className="text-xs text-gray-400 text-center mt-2">
+                Latest shift: {latestShift.event?.name}
+                {latestShift.zoneName ? ` (${latestShift.zoneName})` : ''} negative sentiment{' '}
+                {latestShift.direction === 'negative' ? 'up' : 'down'} {Math.round(latestShift.magnitude)} points to{' '}
+                {Math.round(latestShift.currentNegativePercent)}% at {new Date(latestShift.createdAt).toLocaleTimeString()}
+            </p>
+        )}
     </div>
 
     <div className="lg:w-1/3 flex flex-col gap-6">
@@ -163,6 +326,8 @@ export const FiltersAndCharts: React.FC = () => {
             </div>
         </div>
 
+        <AspectBreakdown eventId={eventId} from={rangeStart} to={rangeEnd} />
+
         <div className="bg-gray-800 border border-gray-700/40 rounded-lg p-4 hover:border-gray-600/50 transition-colors duration-300">
             <h3 className="font-medium mb-4">Data Filters</h3>
             <div className="space-y-3">
@@ -1,12 +1,20 @@
 import React from 'react';
 import { OverviewCard } from './OverviewCards';
 import { Bar } from 'react-chartjs-2';
+import { useGetAlertsQuery } from '@/redux/features/api/alert/alertApi';
+import { AlertRecord } from '@/types/alert';
 
-const alerts: Alert[] = [
-    { severity: 'red', text: 'Audio issues (Critical)', reports: 32 },
-    { severity: 'orange', text: 'Registration delays', reports: 19 },
-    { severity: 'yellow', text: 'Wi-Fi connectivity', reports: 14 },
-];
+const severityColors: Record<AlertRecord['severity'], Alert['severity']> = {
+    critical: 'red',
+    warning: 'orange',
+    info: 'yellow',
+};
+
+const toAlert = (alert: AlertRecord): Alert => ({
+    severity: severityColors[alert.severity],
+    text: alert.severity === 'critical' ? `${alert.message} (Critical)` : alert.message,
+    reports: alert.evidence.length,
+});
 
 const sources: Source[] = [
     {
@@ -30,6 +38,10 @@ const sources: Source[] = [
 ];
 
 export const OverviewCardsList: React.FC = () => {
+    const { data: alertData } = useGetAlertsQuery({ status: 'open' });
+    const openAlerts = alertData?.alerts ?? [];
+    const alerts = openAlerts.slice(0, 3).map(toAlert);
+
     return <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
     <OverviewCard title="Overall Sentiment" value="79% Positive" change={12} changeDirection="up">
         <div className="mt-3 h-2 bg-gray-700 rounded-full overflow-hidden">
@@ -99,8 +111,11 @@ export const OverviewCardsList: React.FC = () => {
         </div>
     </OverviewCard>
 
-    <OverviewCard title="Active Alerts" value="5 Issues" change={2} changeDirection="down">
+    <OverviewCard title="Active Alerts" value={`${openAlerts.length} Issues`} change={2} changeDirection="down">
         <div className="mt-4">
+            {alerts.length === 0 && (
+                <span className="text-sm text-gray-400">No open alerts</span>
+            )}
             {alerts.map((alert, index) => (
                 <div key={index} className="flex items-center justify-between mb-2">
                     <div className="flex items-center">
@@ -9,6 +9,8 @@ interface Feedback {
     sentiment: 'positive' | 'gray' | 'negative';
     source: string;
     sourceIcon: React.ReactNode;
+    // Word attributions from the sentiment service; fetched on demand when absent
+    explanation?: import('@/types/sentiment').SentimentExplanation;
 }
 
 interface CardData {
@@ -9,6 +9,7 @@ import CustomTimeIntervalSelector from "./CustomTimeIntervalSelector";
 import CustomAlertMethodSelector from "./CustomAlertMethodSelector";
 import CustomAlertSeveritySelector from "./CustomAlertSeveritySelector";
 import CustomNotificationMethodSelector from "./CustomNotificationMethodSelector";
+import CustomSelector from "./CustomSelector";
 import { FormValues } from "./page";
 
 interface FormStepsProps {
@@ -490,6 +491,30 @@ const FormSteps: React.FC<FormStepsProps> = ({ step, formik, handleNext, handleP
               ))}
             </div>
           </div>
+
+          <div className="mt-8">
+            <h3 className="text-lg font-semibold text-white mb-2">Escalation</h3>
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={values.EscalationPolicy.enabled}
+                onChange={(e) => setFieldValue("EscalationPolicy.enabled", e.target.checked)}
+                className="form-checkbox h-4 w-4 text-blue-600"
+              />
+              <span className="text-sm text-gray-300">
+                Escalate unacknowledged critical alerts to the next recipient, then to the whole team
+              </span>
+            </label>
+            {values.EscalationPolicy.enabled && (
+              <CustomSelector
+                id="EscalationPolicy.acknowledgeWindow"
+                label="Acknowledge Window"
+                value={values.EscalationPolicy.acknowledgeWindow}
+                setFieldValue={setFieldValue}
+                list={["5min", "15min", "30min", "1hour"]}
+              />
+            )}
+          </div>
         </div>
       )}
 
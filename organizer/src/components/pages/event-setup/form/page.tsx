@@ -37,6 +37,7 @@ export interface FormValues {
     EmailNotifications: { enabled: boolean; Critical: boolean; Warning: boolean; Info: boolean; toEventTeam: boolean };
   };
   AlertRecipients: { name: string; role: string; email: string; isPrimary: boolean; isEditing: boolean }[];
+  EscalationPolicy: { enabled: boolean; acknowledgeWindow: string };
 }
 
 const FormPage = () => {
@@ -82,6 +83,7 @@ const FormPage = () => {
         EmailNotifications: { enabled: false, Critical: false, Warning: false, Info: false, toEventTeam: false },
       },
       AlertRecipients: [{ name: "", role: "", email: "", isPrimary: false, isEditing: false }],
+      EscalationPolicy: { enabled: false, acknowledgeWindow: "15min" },
     },
     validationSchema:
       step === 1 ? step1Schema :
@@ -145,6 +147,7 @@ const FormPage = () => {
             email: recipient.email,
             isPrimary: recipient.isPrimary
           })),
+          escalationPolicy: values.EscalationPolicy,
         };
 
         console.log("Submitting data:", eventData);
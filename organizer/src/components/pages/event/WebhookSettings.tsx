@@ -0,0 +1,234 @@
+"use client";
+
+import React, { useState } from 'react';
+import { toast } from 'react-hot-toast';
+import {
+  useCreateWebhookMutation,
+  useDeleteWebhookMutation,
+  useGetEventWebhooksQuery,
+  useGetWebhookDeliveriesQuery,
+  useRotateWebhookSecretMutation,
+  useSendTestWebhookMutation,
+  useUpdateWebhookMutation,
+} from '@/redux/features/api/webhook/webhookApi';
+import { WebhookDeliveryStatus, WebhookRecord } from '@/types/webhook';
+
+const statusStyles: Record<WebhookDeliveryStatus, string> = {
+  succeeded: 'bg-green-600',
+  failed: 'bg-red-500',
+  pending: 'bg-yellow-500',
+};
+
+function WebhookDeliveries({ webhookId }: { webhookId: string }) {
+  const { data, isLoading } = useGetWebhookDeliveriesQuery(webhookId);
+  const deliveries = data?.deliveries || [];
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-400">Loading deliveries...</p>;
+  }
+
+  if (deliveries.length === 0) {
+    return <p className="text-sm text-gray-400">No deliveries yet</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {deliveries.slice(0, 10).map((delivery) => {
+        const lastAttempt = delivery.attempts[delivery.attempts.length - 1];
+        return (
+          <div key={delivery._id} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+            <div className="flex items-center gap-2">
+              <span className={`px-2 py-0.5 rounded text-white text-xs ${statusStyles[delivery.status]}`}>
+                {delivery.status}
+              </span>
+              <span className="text-gray-300">{delivery.type}</span>
+              <span className="text-gray-400">{new Date(delivery.createdAt).toLocaleString()}</span>
+            </div>
+            <div className="text-gray-400">
+              {lastAttempt?.statusCode ? `HTTP ${lastAttempt.statusCode}` : lastAttempt?.error || '-'}
+              {' · '}
+              {delivery.attempts.length} attempt{delivery.attempts.length === 1 ? '' : 's'}
+              {delivery.status === 'pending' && delivery.nextAttemptAt && (
+                <> · retry at {new Date(delivery.nextAttemptAt).toLocaleTimeString()}</>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function WebhookItem({ webhook }: { webhook: WebhookRecord }) {
+  const [showDeliveries, setShowDeliveries] = useState(false);
+  const [updateWebhook] = useUpdateWebhookMutation();
+  const [deleteWebhook] = useDeleteWebhookMutation();
+  const [rotateSecret] = useRotateWebhookSecretMutation();
+  const [sendTest, { isLoading: isTesting }] = useSendTestWebhookMutation();
+
+  const handleTest = async () => {
+    try {
+      const response = await sendTest(webhook._id).unwrap();
+      const statusCode = response.delivery.attempts[0]?.statusCode;
+      if (response.success) {
+        toast.success(`Test event delivered (HTTP ${statusCode})`);
+      } else {
+        toast.error(statusCode ? `Test event failed (HTTP ${statusCode})` : response.message);
+      }
+      setShowDeliveries(true);
+    } catch {
+      toast.error('Failed to send test event');
+    }
+  };
+
+  const handleRotate = async () => {
+    try {
+      const response = await rotateSecret(webhook._id).unwrap();
+      window.prompt('New signing secret (copy it now, it will not be shown again):', response.secret);
+    } catch {
+      toast.error('Failed to rotate secret');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm('Delete this webhook?')) return;
+    try {
+      await deleteWebhook(webhook._id).unwrap();
+      toast.success('Webhook deleted');
+    } catch {
+      toast.error('Failed to delete webhook');
+    }
+  };
+
+  return (
+    <div className="bg-gray-700/50 rounded p-4">
+      <div className="flex flex-wrap justify-between items-start gap-2">
+        <div>
+          <p className="text-white font-medium break-all">{webhook.url}</p>
+          {webhook.description && <p className="text-gray-400 text-sm">{webhook.description}</p>}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => updateWebhook({ id: webhook._id, enabled: !webhook.enabled })}
+            className={`px-3 py-1 rounded text-white text-sm ${webhook.enabled ? 'bg-green-600 hover:bg-green-700' : 'bg-gray-600 hover:bg-gray-500'}`}
+          >
+            {webhook.enabled ? 'Enabled' : 'Disabled'}
+          </button>
+          <button
+            onClick={handleTest}
+            disabled={isTesting}
+            className="px-3 py-1 bg-blue-500 text-white rounded text-sm hover:bg-blue-600 disabled:opacity-50"
+          >
+            {isTesting ? 'Sending...' : 'Send test event'}
+          </button>
+          <button
+            onClick={() => setShowDeliveries(!showDeliveries)}
+            className="px-3 py-1 bg-gray-600 text-white rounded text-sm hover:bg-gray-700"
+          >
+            {showDeliveries ? 'Hide deliveries' : 'Deliveries'}
+          </button>
+          <button
+            onClick={handleRotate}
+            className="px-3 py-1 bg-gray-600 text-white rounded text-sm hover:bg-gray-700"
+          >
+            Rotate secret
+          </button>
+          <button
+            onClick={handleDelete}
+            className="px-3 py-1 bg-red-500 text-white rounded text-sm hover:bg-red-600"
+          >
+            Delete
+          </button>
+        </div>
+      </div>
+      {showDeliveries && (
+        <div className="mt-4 border-t border-gray-600 pt-4">
+          <WebhookDeliveries webhookId={webhook._id} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function WebhookSettings({ eventId, enabled }: { eventId: string; enabled: boolean }) {
+  const { data, isLoading } = useGetEventWebhooksQuery(eventId);
+  const [createWebhook, { isLoading: isCreating }] = useCreateWebhookMutation();
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+  const webhooks = data?.webhooks || [];
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const response = await createWebhook({ event: eventId, url, description }).unwrap();
+      setNewSecret(response.webhook.secret || null);
+      setUrl('');
+      setDescription('');
+      toast.success('Webhook added');
+    } catch (error) {
+      const message = (error as { data?: { message?: string } })?.data?.message;
+      toast.error(message || 'Failed to add webhook');
+    }
+  };
+
+  return (
+    <div>
+      {!enabled && (
+        <p className="text-sm text-yellow-400 mb-4">
+          Add &quot;Webhook&quot; to the event&apos;s alert methods to send alerts to these endpoints.
+        </p>
+      )}
+
+      <form onSubmit={handleCreate} className="flex flex-col md:flex-row gap-2 mb-4">
+        <input
+          type="url"
+          required
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="https://example.com/webhooks/alerts"
+          className="flex-1 px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white text-sm"
+        />
+        <input
+          type="text"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="Description (optional)"
+          className="flex-1 px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white text-sm"
+        />
+        <button
+          type="submit"
+          disabled={isCreating}
+          className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+        >
+          Add Webhook
+        </button>
+      </form>
+
+      {newSecret && (
+        <div className="bg-gray-700/50 rounded p-4 mb-4">
+          <p className="text-sm text-gray-400">
+            Signing secret (copy it now, it will not be shown again). Verify the X-Sentinel-Signature header
+            as HMAC-SHA256 of &quot;timestamp.body&quot;.
+          </p>
+          <p className="text-white font-mono text-sm break-all mt-1">{newSecret}</p>
+          <button onClick={() => setNewSecret(null)} className="text-sm text-blue-400 mt-2">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-gray-400">Loading webhooks...</p>
+      ) : webhooks.length === 0 ? (
+        <p className="text-sm text-gray-400">No webhooks configured</p>
+      ) : (
+        <div className="space-y-4">
+          {webhooks.map((webhook) => (
+            <WebhookItem key={webhook._id} webhook={webhook} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
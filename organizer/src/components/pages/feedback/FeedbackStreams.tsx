@@ -4,6 +4,10 @@
 import { useState } from 'react';
 import Image from 'next/image';
 import { useRouter } from 'next/navigation';
+import { useSelector } from 'react-redux';
+import { useGetEventsByUserIdQuery } from '@/redux/features/api/event/eventApi';
+import { useGetKeywordTrendsQuery } from '@/redux/features/api/keyword/keywordApi';
+import { TrendSentiment } from '@/types/keyword';
 
 interface SentimentData {
   positive: { percentage: number; mentions: number };
@@ -21,12 +25,6 @@ interface Feedback {
   eventId: string;
 }
 
-interface KeywordTrend {
-  keyword: string;
-  count: number;
-  sentiment: 'Positive' | 'gray' | 'Negative';
-}
-
 interface TeamActivity {
   member: string;
   action: string;
@@ -101,18 +99,6 @@ const initialFeedbacks: Feedback[] = [
   },
 ];
 
-const initialKeywordTrends: KeywordTrend[] = [
-  { keyword: 'Great speakers', count: 78, sentiment: 'Positive' },
-  { keyword: 'Networking', count: 65, sentiment: 'Positive' },
-  { keyword: 'Long lines', count: 42, sentiment: 'Negative' },
-  { keyword: 'Informative', count: 38, sentiment: 'Positive' },
-  { keyword: 'Schedule', count: 31, sentiment: 'gray' },
-  { keyword: 'WiFi issues', count: 28, sentiment: 'Negative' },
-  { keyword: 'Amazing venue', count: 24, sentiment: 'Positive' },
-  { keyword: 'Parking', count: 19, sentiment: 'Negative' },
-  { keyword: 'Registration', count: 15, sentiment: 'gray' },
-];
-
 const initialTeamActivity: TeamActivity[] = [
   {
     member: 'Alex Thompson',
@@ -239,10 +225,24 @@ export const FeedbackStreams: React.FC = () => {
   const router = useRouter();
   const [sentimentData] = useState<SentimentData>(initialSentimentData);
   const [feedbacks, setFeedbacks] = useState<Feedback[]>(initialFeedbacks);
-  const [keywordTrends] = useState<KeywordTrend[]>(initialKeywordTrends);
   const [teamActivity] = useState<TeamActivity[]>(initialTeamActivity);
   const [searchQuery, setSearchQuery] = useState('');
-  const [selectedEvent, setSelectedEvent] = useState(mockEvents[0]);
+  const { user } = useSelector((state: { auth: { user?: { _id: string } } }) => state.auth);
+  const { data: eventsResponse } = useGetEventsByUserIdQuery(user?._id || '', { skip: !user?._id });
+  const events: Event[] = eventsResponse?.data?.length
+    ? eventsResponse.data.map((event: { _id: string; name: string; startDate: string }) => ({
+        id: event._id,
+        name: event.name,
+        date: new Date(event.startDate).toLocaleDateString(),
+      }))
+    : mockEvents;
+  const [selectedEventId, setSelectedEventId] = useState(mockEvents[0].id);
+  const selectedEvent = events.find((event) => event.id === selectedEventId) || events[0];
+  const { data: trendsResponse, isLoading: isLoadingTrends } = useGetKeywordTrendsQuery(
+    { eventId: selectedEvent.id },
+    { skip: events === mockEvents, pollingInterval: 60000 }
+  );
+  const keywordTrends = trendsResponse?.trends || [];
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
 
   const sentimentColors = {
@@ -251,6 +251,12 @@ export const FeedbackStreams: React.FC = () => {
     Negative: 'red-500',
   };
 
+  const trendColors: Record<TrendSentiment, string> = {
+    positive: sentimentColors.Positive,
+    neutral: sentimentColors.gray,
+    negative: sentimentColors.Negative,
+  };
+
   const handleCreateFeedback = (newFeedback: Omit<Feedback, 'time' | 'avatar' | 'eventId'>) => {
     const feedback: Feedback = {
       ...newFeedback,
@@ -279,10 +285,10 @@ export const FeedbackStreams: React.FC = () => {
             <div className="relative">
               <select
                 value={selectedEvent.id}
-                onChange={(e) => setSelectedEvent(mockEvents.find(event => event.id === e.target.value) || mockEvents[0])}
+                onChange={(e) => setSelectedEventId(e.target.value)}
                 className="bg-gray-800 text-white border border-gray-700/30 rounded-lg px-4 py-2 pr-8 appearance-none focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
               >
-                {mockEvents.map((event) => (
+                {events.map((event) => (
                   <option key={event.id} value={event.id}>
                     {event.name}
                   </option>
@@ -448,15 +454,32 @@ export const FeedbackStreams: React.FC = () => {
                 <div className="flex flex-wrap gap-2">
                   {keywordTrends.map((trend) => (
                     <span
-                      key={trend.keyword}
-                      className={`px-3 py-1.5 bg-${sentimentColors[trend.sentiment]}/20 text-${
-                        sentimentColors[trend.sentiment]
-                      } rounded-full text-sm`}
+                      key={trend.term}
+                      title={trend.examples.map((example) => `"${example.text}"`).join('\n')}
+                      className={`px-3 py-1.5 bg-${trendColors[trend.sentiment]}/20 text-${
+                        trendColors[trend.sentiment]
+                      } rounded-full text-sm ${trend.isSpike ? 'ring-1 ring-yellow-400' : ''}`}
                     >
-                      {trend.keyword} ({trend.count})
+                      {trend.isSpike && <span className="mr-1">📈</span>}
+                      {trend.term} ({trend.count})
                     </span>
                   ))}
+                  {!isLoadingTrends && keywordTrends.length === 0 && (
+                    <span className="text-sm text-gray-400">No trending terms in the last 15 minutes</span>
+                  )}
                 </div>
+                {keywordTrends.filter((trend) => trend.isSpike).slice(0, 3).map((trend) => (
+                  <div key={trend.term} className="mt-4 border-t border-gray-700/30 pt-3">
+                    <p className="text-sm font-medium text-yellow-400">
+                      &quot;{trend.term}&quot; spiking: {trend.count} mentions vs {trend.expected} expected
+                    </p>
+                    {trend.examples.map((example) => (
+                      <p key={example.id} className="text-xs text-gray-400 mt-1 truncate">
+                        &quot;{example.text}&quot;
+                      </p>
+                    ))}
+                  </div>
+                ))}
               </div>
             </div>
 
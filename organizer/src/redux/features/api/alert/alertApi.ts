@@ -0,0 +1,64 @@
+import { apiSlice } from "../apiSlice";
+import { AlertFilters, AlertRecord } from "@/types/alert";
+
+export const alertApi = apiSlice.injectEndpoints({
+  endpoints: (builder) => ({
+    // List alerts, optionally filtered by event, status or severity
+    getAlerts: builder.query<{ success: boolean; alerts: AlertRecord[] }, AlertFilters | void>({
+      query: (filters) => ({
+        url: '/alerts',
+        method: 'GET',
+        params: filters || {},
+        credentials: 'include' as const,
+      }),
+      providesTags: ['Alert'],
+    }),
+
+    acknowledgeAlert: builder.mutation({
+      query: (id: string) => ({
+        url: `/alerts/${id}/acknowledge`,
+        method: 'PUT',
+        credentials: 'include' as const,
+      }),
+      invalidatesTags: ['Alert'],
+    }),
+
+    snoozeAlert: builder.mutation({
+      query: ({ id, minutes }: { id: string; minutes: number }) => ({
+        url: `/alerts/${id}/snooze`,
+        method: 'PUT',
+        body: { minutes },
+        credentials: 'include' as const,
+      }),
+      invalidatesTags: ['Alert'],
+    }),
+
+    resolveAlert: builder.mutation({
+      query: ({ id, resolution }: { id: string; resolution?: string }) => ({
+        url: `/alerts/${id}/resolve`,
+        method: 'PUT',
+        body: { resolution },
+        credentials: 'include' as const,
+      }),
+      invalidatesTags: ['Alert'],
+    }),
+
+    addAlertNote: builder.mutation({
+      query: ({ id, text }: { id: string; text: string }) => ({
+        url: `/alerts/${id}/note`,
+        method: 'POST',
+        body: { text },
+        credentials: 'include' as const,
+      }),
+      invalidatesTags: ['Alert'],
+    }),
+  }),
+});
+
+export const {
+  useGetAlertsQuery,
+  useAcknowledgeAlertMutation,
+  useSnoozeAlertMutation,
+  useResolveAlertMutation,
+  useAddAlertNoteMutation,
+} = alertApi;
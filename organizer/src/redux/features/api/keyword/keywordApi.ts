@@ -0,0 +1,21 @@
+import { apiSlice } from "../apiSlice";
+import { KeywordTrendsResponse } from "@/types/keyword";
+
+export const keywordApi = apiSlice.injectEndpoints({
+  endpoints: (builder) => ({
+    // Trending terms of an event, spikes first (window and baseline in minutes)
+    getKeywordTrends: builder.query<
+      KeywordTrendsResponse,
+      { eventId: string; window?: number; baseline?: number }
+    >({
+      query: ({ eventId, ...params }) => ({
+        url: `/keywords/event/${eventId}/trends`,
+        method: 'GET',
+        params,
+        credentials: 'include' as const,
+      }),
+    }),
+  }),
+});
+
+export const { useGetKeywordTrendsQuery } = keywordApi;
@@ -0,0 +1,46 @@
+import { apiSlice } from "../apiSlice";
+import {
+  SentimentAspect,
+  SentimentAspectFilters,
+  SentimentBucket,
+  SentimentHistoryFilters,
+  SentimentResult,
+} from "@/types/sentiment";
+
+// Sentiment history is served by the sentiment service rather than the main server
+const SENTIMENT_URI = process.env.NEXT_PUBLIC_SENTIMENT_URI;
+
+export const sentimentApi = apiSlice.injectEndpoints({
+  endpoints: (builder) => ({
+    // Stored sentiment buckets of an event, defaults to the last 24 hours
+    getSentimentHistory: builder.query<{ from: string; to: string; data: SentimentBucket[] }, SentimentHistoryFilters>({
+      query: (filters) => ({
+        url: `${SENTIMENT_URI}/api/v1/feedback/history`,
+        method: 'GET',
+        params: filters,
+        credentials: 'include' as const,
+      }),
+    }),
+    // Per-aspect polarity of an event, worst impact first
+    getSentimentAspects: builder.query<{ from: string; to: string; data: SentimentAspect[] }, SentimentAspectFilters>({
+      query: (filters) => ({
+        url: `${SENTIMENT_URI}/api/v1/feedback/aspects`,
+        method: 'GET',
+        params: filters,
+        credentials: 'include' as const,
+      }),
+    }),
+    // Score a text with word-level attributions, without adding it to any sentiment series
+    explainSentiment: builder.query<SentimentResult, string>({
+      query: (text) => ({
+        url: `${SENTIMENT_URI}/api/v1/feedback`,
+        method: 'POST',
+        params: { explain: true, record: false },
+        body: { text },
+        credentials: 'include' as const,
+      }),
+    }),
+  }),
+});
+
+export const { useGetSentimentHistoryQuery, useGetSentimentAspectsQuery, useLazyExplainSentimentQuery } = sentimentApi;
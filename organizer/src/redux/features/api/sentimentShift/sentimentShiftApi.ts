@@ -0,0 +1,18 @@
+import { apiSlice } from "../apiSlice";
+import { SentimentShift, SentimentShiftFilters } from "@/types/sentimentShift";
+
+export const sentimentShiftApi = apiSlice.injectEndpoints({
+  endpoints: (builder) => ({
+    // Sentiment shifts for chart annotations, defaults to the last 24 hours
+    getSentimentShifts: builder.query<{ success: boolean; shifts: SentimentShift[] }, SentimentShiftFilters | void>({
+      query: (filters) => ({
+        url: '/sentiment-shifts',
+        method: 'GET',
+        params: filters || {},
+        credentials: 'include' as const,
+      }),
+    }),
+  }),
+});
+
+export const { useGetSentimentShiftsQuery } = sentimentShiftApi;
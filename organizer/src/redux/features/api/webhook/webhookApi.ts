@@ -0,0 +1,83 @@
+import { apiSlice } from "../apiSlice";
+import { WebhookDelivery, WebhookRecord } from "@/types/webhook";
+
+export const webhookApi = apiSlice.injectEndpoints({
+  endpoints: (builder) => ({
+    getEventWebhooks: builder.query<{ success: boolean; webhooks: WebhookRecord[] }, string>({
+      query: (eventId) => ({
+        url: `/webhooks/event/${eventId}`,
+        method: 'GET',
+        credentials: 'include' as const,
+      }),
+      providesTags: ['Webhook'],
+    }),
+
+    createWebhook: builder.mutation<
+      { success: boolean; webhook: WebhookRecord },
+      { event: string; url: string; description?: string }
+    >({
+      query: (data) => ({
+        url: '/webhooks/create',
+        method: 'POST',
+        body: data,
+        credentials: 'include' as const,
+      }),
+      invalidatesTags: ['Webhook'],
+    }),
+
+    updateWebhook: builder.mutation({
+      query: ({ id, ...data }: { id: string; url?: string; description?: string; enabled?: boolean }) => ({
+        url: `/webhooks/${id}`,
+        method: 'PUT',
+        body: data,
+        credentials: 'include' as const,
+      }),
+      invalidatesTags: ['Webhook'],
+    }),
+
+    deleteWebhook: builder.mutation({
+      query: (id: string) => ({
+        url: `/webhooks/${id}`,
+        method: 'DELETE',
+        credentials: 'include' as const,
+      }),
+      invalidatesTags: ['Webhook'],
+    }),
+
+    rotateWebhookSecret: builder.mutation<{ success: boolean; secret: string }, string>({
+      query: (id) => ({
+        url: `/webhooks/${id}/rotate-secret`,
+        method: 'POST',
+        credentials: 'include' as const,
+      }),
+    }),
+
+    sendTestWebhook: builder.mutation<{ success: boolean; message: string; delivery: WebhookDelivery }, string>({
+      query: (id) => ({
+        url: `/webhooks/${id}/test`,
+        method: 'POST',
+        credentials: 'include' as const,
+      }),
+      invalidatesTags: ['Webhook'],
+    }),
+
+    getWebhookDeliveries: builder.query<{ success: boolean; deliveries: WebhookDelivery[] }, string>({
+      query: (id) => ({
+        url: `/webhooks/${id}/deliveries`,
+        method: 'GET',
+        credentials: 'include' as const,
+      }),
+      providesTags: ['Webhook'],
+    }),
+  }),
+});
+
+export const {
+  useGetEventWebhooksQuery,
+  useCreateWebhookMutation,
+  useUpdateWebhookMutation,
+  useDeleteWebhookMutation,
+  useRotateWebhookSecretMutation,
+  useSendTestWebhookMutation,
+  useGetWebhookDeliveriesQuery,
+} = webhookApi;
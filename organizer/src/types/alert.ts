@@ -0,0 +1,59 @@
+export type AlertSeverity = 'critical' | 'warning' | 'info';
+
+export type AlertStatus = 'open' | 'acknowledged' | 'snoozed' | 'resolved';
+
+export interface AlertUser {
+  _id: string;
+  name: string;
+  email?: string;
+}
+
+export interface AlertRecord {
+  _id: string;
+  event: {
+    _id: string;
+    name: string;
+  };
+  severity: AlertSeverity;
+  trigger: string;
+  message: string;
+  evidence: {
+    source: 'feedback' | 'shortFeedback' | 'issue';
+    id: string;
+    text?: string;
+  }[];
+  metrics: {
+    total: number;
+    negativePercent: number;
+    previousNegativePercent?: number;
+  };
+  status: AlertStatus;
+  acknowledgedBy?: AlertUser;
+  acknowledgedAt?: string;
+  snoozedUntil?: string;
+  resolvedBy?: AlertUser;
+  resolvedAt?: string;
+  resolution?: string;
+  notes: {
+    user: AlertUser | string;
+    text: string;
+    createdAt: string;
+  }[];
+  escalation?: {
+    level: number;
+    nextAt?: string;
+    history: {
+      level: number;
+      recipients: string[];
+      escalatedAt: string;
+    }[];
+  };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AlertFilters {
+  event?: string;
+  status?: AlertStatus;
+  severity?: AlertSeverity;
+}
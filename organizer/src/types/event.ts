@@ -73,6 +73,10 @@ export interface Event {
     email: string;
     isPrimary: boolean;
   }[];
+  escalationPolicy?: {
+    enabled: boolean;
+    acknowledgeWindow: string;
+  };
   createdAt: string;
   updatedAt: string;
   __v: number;
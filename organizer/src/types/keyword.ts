@@ -0,0 +1,26 @@
+export type TrendSentiment = 'positive' | 'neutral' | 'negative';
+
+export interface TermTrend {
+  term: string;
+  monitored: boolean;
+  count: number;
+  baselineCount: number;
+  expected: number;
+  ratio: number;
+  zScore: number;
+  isSpike: boolean;
+  sentiment: TrendSentiment;
+  examples: {
+    source: 'feedback' | 'shortFeedback' | 'issue';
+    id: string;
+    text: string;
+    createdAt: string;
+  }[];
+}
+
+export interface KeywordTrendsResponse {
+  success: boolean;
+  window: number;
+  baseline: number;
+  trends: TermTrend[];
+}
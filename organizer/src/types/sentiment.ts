@@ -0,0 +1,73 @@
+export type SentimentLabel = 'negative' | 'neutral' | 'positive';
+
+// 'lexicon' is the sentiment service's rule-based fallback, used while its model is unavailable;
+// 'emoji' is short feedback scored from its reaction alone
+export type SentimentAnalyzer = 'model' | 'lexicon' | 'emoji';
+
+// 'hinglish' is Hindi written in Latin script
+export type SentimentLanguage = 'en' | 'hi' | 'bn' | 'hinglish' | 'unknown';
+
+export type SentimentGranularity = '1m' | '15m' | '1h' | '1d';
+
+export interface SentimentBucket {
+  timestamp: number;
+  eventId: string;
+  zone?: string;
+  channel?: string;
+  average: number;
+  count: number;
+  negative: number;
+  neutral: number;
+  positive: number;
+  labels: Record<SentimentLabel, number>;
+  analyzers: Record<SentimentAnalyzer, number>;
+  languages: Record<SentimentLanguage, number>;
+}
+
+export interface SentimentHistoryFilters {
+  eventId: string;
+  from?: string;
+  to?: string;
+  granularity?: SentimentGranularity;
+  zone?: string;
+  channel?: string;
+  groupBy?: 'zone' | 'channel';
+}
+
+// What attendees say about one aspect of the event (Wi-Fi, food, queues, ...) over a range.
+// impact is the aspect's score (-1..1) summed per scored item; the most negative one drags sentiment down most.
+export interface SentimentAspect {
+  aspect: string;
+  label: string;
+  count: number;
+  average: number;
+  impact: number;
+  polarities: Record<SentimentLabel, number>;
+}
+
+export type SentimentAspectFilters = Omit<SentimentHistoryFilters, 'granularity' | 'groupBy'>;
+
+// How much one word pushed the score: > 0 towards positive, < 0 towards negative; start/end index into the text
+export interface TokenAttribution {
+  token: string;
+  start: number;
+  end: number;
+  weight: number;
+}
+
+// 'occlusion' comes from the model (probability shift when the word is dropped), 'lexicon' from the fallback analyzer
+export interface SentimentExplanation {
+  method: 'occlusion' | 'lexicon';
+  modelVersion: string | null;
+  tokens: TokenAttribution[];
+}
+
+export interface SentimentResult {
+  sentiment: SentimentLabel;
+  confidence: number;
+  probabilities: Record<SentimentLabel, number>;
+  modelVersion: string | null;
+  analyzer: SentimentAnalyzer;
+  language: SentimentLanguage;
+  explanation?: SentimentExplanation;
+}
@@ -0,0 +1,28 @@
+export type ShiftDirection = 'negative' | 'positive';
+
+export interface SentimentShift {
+  _id: string;
+  event: {
+    _id: string;
+    name: string;
+  };
+  zone: string;
+  zoneName?: string;
+  direction: ShiftDirection;
+  magnitude: number;
+  currentNegativePercent: number;
+  previousNegativePercent: number;
+  currentSamples: number;
+  previousSamples: number;
+  windowStart: string;
+  windowEnd: string;
+  createdAt: string;
+}
+
+export interface SentimentShiftFilters {
+  event?: string;
+  zone?: string;
+  direction?: ShiftDirection;
+  from?: string;
+  to?: string;
+}
@@ -0,0 +1,31 @@
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface WebhookRecord {
+  _id: string;
+  event: string;
+  url: string;
+  description?: string;
+  enabled: boolean;
+  // Only returned when the webhook is created or its secret is rotated
+  secret?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookDeliveryAttempt {
+  attemptedAt: string;
+  statusCode?: number;
+  error?: string;
+  durationMs: number;
+}
+
+export interface WebhookDelivery {
+  _id: string;
+  webhook: string;
+  alert?: string;
+  type: 'alert.raised' | 'webhook.test';
+  status: WebhookDeliveryStatus;
+  attempts: WebhookDeliveryAttempt[];
+  nextAttemptAt?: string;
+  createdAt: string;
+}
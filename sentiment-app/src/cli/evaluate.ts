@@ -0,0 +1,291 @@
+require("dotenv").config();
+import { promises as fs } from "fs";
+import path from "path";
+import { parseArgs } from "util";
+import { LoadedModel, resolveActiveVersion, updateVersionMeta, withModelVersion } from "../utils/modelRegistry";
+import {
+  analyzeWithLexicon,
+  analyzeWithModel,
+  DEFAULT_TEMPERATURE,
+  modelLogits,
+  SENTIMENT_LABELS,
+} from "../utils/sentiment";
+import {
+  EvaluationReport,
+  evaluatePredictions,
+  fitTemperature,
+  LabeledExample,
+  negativeLogLikelihood,
+  parseLabel,
+} from "../utils/evaluation";
+import { SentimentResult } from "../types";
+
+const USAGE = `Evaluate sentiment analyzers against a labeled dataset.
+
+Usage: npm run evaluate -- <file.csv|file.jsonl> [options]
+
+  --version <name>      Model version to evaluate; repeat to compare versions (default: the active one)
+  --no-model            Skip the model and evaluate the lexicon only
+  --no-lexicon          Skip the lexicon fallback analyzer
+  --text <field>        Text column/field (default: text, tweet, feedback or message)
+  --label <field>       Label column/field (default: label or sentiment)
+  --limit <n>           Evaluate the first n examples only
+  --bins <n>            Calibration buckets (default: 10)
+  --worst <n>           Misclassified examples to show (default: 10)
+  --batch-size <n>      Texts per forward pass (default: 32)
+  --json <file>         Also write the full report as JSON
+  --fit-temperature     Fit each model version's temperature on the dataset, save it to the version's
+                        meta.json and evaluate with it; use held-out data, not the training set
+
+Labels may be negative/neutral/positive (any case, or neg/neu/pos) or class indices 0/1/2.`;
+
+const TEXT_FIELDS = ["text", "tweet", "feedback", "message"];
+const LABEL_FIELDS = ["label", "sentiment"];
+
+interface AnalyzerRun {
+  analyzer: string;
+  durationMs: number;
+  report: EvaluationReport;
+}
+
+// RFC 4180 CSV: quoted fields may contain commas, doubled quotes and line breaks
+function parseCSV(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) rows.push([...row, field]);
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+function pickField(fields: string[], wanted: string | undefined, candidates: string[]): string {
+  const lower = fields.map((field) => field.toLowerCase());
+  const index = wanted ? fields.indexOf(wanted) : lower.findIndex((field) => candidates.includes(field));
+  if (index === -1) {
+    throw new Error(`No ${wanted || candidates.join("/")} field found; fields are ${fields.join(", ")}`);
+  }
+  return fields[index];
+}
+
+async function loadDataset(
+  file: string,
+  textField?: string,
+  labelField?: string
+): Promise<{ examples: LabeledExample[]; skipped: number }> {
+  const content = (await fs.readFile(file, "utf8")).replace(/^\uFEFF/, "");
+
+  let records: { [field: string]: unknown }[];
+  if (path.extname(file).toLowerCase() === ".jsonl") {
+    records = content
+      .split("\n")
+      .filter((line) => line.trim())
+      .map((line, index) => {
+        try {
+          return JSON.parse(line);
+        } catch {
+          throw new Error(`Invalid JSON on line ${index + 1}`);
+        }
+      });
+  } else {
+    const [header, ...rows] = parseCSV(content);
+    if (!header) throw new Error("The CSV file is empty");
+    records = rows.map((cells) => Object.fromEntries(header.map((field, index) => [field.trim(), cells[index]])));
+  }
+  if (!records.length) throw new Error("The dataset has no examples");
+
+  const fields = Object.keys(records[0]);
+  const text = pickField(fields, textField, TEXT_FIELDS);
+  const label = pickField(fields, labelField, LABEL_FIELDS);
+
+  const examples: LabeledExample[] = [];
+  records.forEach((record) => {
+    const parsed = parseLabel(record[label]);
+    if (typeof record[text] === "string" && record[text] && parsed) {
+      examples.push({ text: record[text] as string, label: parsed });
+    }
+  });
+  return { examples, skipped: records.length - examples.length };
+}
+
+async function runInBatches<T>(
+  texts: string[],
+  batchSize: number,
+  analyze: (batch: string[]) => Promise<T[]>
+): Promise<T[]> {
+  const results: T[] = [];
+  for (let start = 0; start < texts.length; start += batchSize) {
+    results.push(...(await analyze(texts.slice(start, start + batchSize))));
+    process.stderr.write(`\r  ${Math.min(start + batchSize, texts.length)}/${texts.length}`);
+  }
+  process.stderr.write("\n");
+  return results;
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+const pad = (value: string | number, width: number) => String(value).padStart(width);
+
+function printReport({ analyzer, durationMs, report }: AnalyzerRun): void {
+  console.log(`\n== ${analyzer} (${report.examples} examples, ${(durationMs / 1000).toFixed(1)}s)`);
+  console.log(
+    `accuracy ${percent(report.accuracy)}   macro-F1 ${report.macroF1.toFixed(3)}   ECE ${report.ece.toFixed(3)}`
+  );
+
+  console.log("\nper class        precision  recall     f1  support");
+  SENTIMENT_LABELS.forEach((label) => {
+    const { precision, recall, f1, support } = report.perClass[label];
+    const cells = [pad(percent(precision), 9), pad(percent(recall), 8), pad(f1.toFixed(3), 7), pad(support, 9)];
+    console.log(`  ${label.padEnd(14)}${cells.join("")}`);
+  });
+
+  console.log("\nconfusion (rows expected, columns predicted)");
+  console.log(`  ${"".padEnd(10)}${SENTIMENT_LABELS.map((label) => pad(label, 10)).join("")}`);
+  SENTIMENT_LABELS.forEach((expected) => {
+    const cells = SENTIMENT_LABELS.map((predicted) => pad(report.confusion[expected][predicted], 10)).join("");
+    console.log(`  ${expected.padEnd(10)}${cells}`);
+  });
+
+  console.log("\ncalibration      count  confidence  accuracy");
+  report.calibration.forEach(({ from, to, count, meanConfidence, accuracy }) => {
+    const range = `${from.toFixed(2)}-${to.toFixed(2)}`;
+    const cells = [pad(count, 8), pad(percent(meanConfidence), 12), pad(percent(accuracy), 10)];
+    console.log(`  ${range.padEnd(12)}${cells.join("")}`);
+  });
+
+  if (report.worst.length) {
+    console.log("\nmost confident mistakes");
+    report.worst.forEach(({ text, expected, predicted, confidence }) => {
+      const snippet = text.replace(/\s+/g, " ").slice(0, 100);
+      console.log(`  ${percent(confidence).padStart(6)} ${expected} -> ${predicted}: ${snippet}`);
+    });
+  }
+}
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      version: { type: "string", multiple: true },
+      "no-model": { type: "boolean" },
+      "no-lexicon": { type: "boolean" },
+      text: { type: "string" },
+      label: { type: "string" },
+      limit: { type: "string" },
+      bins: { type: "string" },
+      worst: { type: "string" },
+      "batch-size": { type: "string" },
+      json: { type: "string" },
+      "fit-temperature": { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  const [file] = positionals;
+  if (values.help || !file) {
+    console.log(USAGE);
+    process.exit(values.help ? 0 : 1);
+  }
+
+  const number = (value: string | undefined, fallback: number) => {
+    const parsed = value === undefined ? fallback : parseInt(value, 10);
+    if (!(parsed > 0)) throw new Error(`Expected a positive number, got ${value}`);
+    return parsed;
+  };
+  const options = { bins: number(values.bins, 10), worst: number(values.worst, 10) };
+  const batchSize = number(values["batch-size"], 32);
+
+  const dataset = await loadDataset(file, values.text, values.label);
+  const examples = values.limit ? dataset.examples.slice(0, number(values.limit, 0)) : dataset.examples;
+  console.log(`Loaded ${examples.length} examples from ${file}`);
+  if (dataset.skipped) console.log(`Skipped ${dataset.skipped} rows without text or a known label`);
+  const texts = examples.map(({ text }) => text);
+
+  const runs: AnalyzerRun[] = [];
+  const evaluate = async (analyzer: string, analyze: (batch: string[]) => Promise<SentimentResult[]>) => {
+    console.log(`Scoring with ${analyzer}...`);
+    const started = Date.now();
+    const predictions = await runInBatches(texts, batchSize, analyze);
+    const report = evaluatePredictions(examples, predictions, options);
+    runs.push({ analyzer, durationMs: Date.now() - started, report });
+  };
+
+  // Temperature scaling: one scalar dividing the logits, fitted by NLL; it changes confidence, never the label
+  const calibrate = async (loaded: LoadedModel) => {
+    console.log(`Fitting the temperature of ${loaded.version}...`);
+    const logits = await runInBatches(texts, batchSize, (batch) => modelLogits(batch, loaded));
+    const labels = examples.map(({ label }) => label);
+
+    const previous = loaded.temperature ?? DEFAULT_TEMPERATURE;
+    const temperature = fitTemperature(logits, labels);
+    const before = negativeLogLikelihood(logits, labels, previous);
+    const after = negativeLogLikelihood(logits, labels, temperature);
+    const file = await updateVersionMeta(loaded.version, { temperature: Number(temperature.toFixed(4)) });
+    console.log(`temperature ${previous} -> ${temperature.toFixed(4)} (NLL ${before.toFixed(4)} -> ${after.toFixed(4)})`);
+    console.log(`Saved to ${file}; reactivate the version for the service to use it`);
+    loaded.temperature = temperature;
+  };
+
+  if (!values["no-model"]) {
+    const active = await resolveActiveVersion();
+    const versions = values.version || (active ? [active] : []);
+    if (!versions.length) console.warn("No model version available; evaluating the lexicon only.");
+
+    for (const version of versions) {
+      await withModelVersion(version, async (loaded) => {
+        if (values["fit-temperature"]) await calibrate(loaded);
+        await evaluate(`model ${version}`, (batch) => analyzeWithModel(batch, loaded));
+      });
+    }
+  }
+  if (!values["no-lexicon"]) {
+    await evaluate("lexicon", async (batch) => analyzeWithLexicon(batch));
+  }
+
+  runs.forEach(printReport);
+
+  if (runs.length > 1) {
+    console.log("\n== comparison");
+    runs.forEach(({ analyzer, report }) => {
+      const accuracy = pad(percent(report.accuracy), 6);
+      console.log(`  ${analyzer.padEnd(24)} accuracy ${accuracy}  macro-F1 ${report.macroF1.toFixed(3)}`);
+    });
+  }
+
+  if (values.json) {
+    const output = { file, examples: examples.length, skipped: dataset.skipped, runs };
+    await fs.writeFile(values.json, JSON.stringify(output, null, 2));
+    console.log(`\nReport written to ${values.json}`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error?.message || error);
+  process.exit(1);
+});
@@ -1,4 +1,4 @@
-import { S3Client, GetObjectCommand } from "@aws-sdk/client-s3";
+import { S3Client, GetObjectCommand, ListObjectsV2Command } from "@aws-sdk/client-s3";
 import { promises as fs } from "fs";
 import path from "path";
 
@@ -18,6 +18,60 @@ export const BUCKET_NAME = process.env.AWS_BUCKET_NAME || "my-sentiment-model-bu
 export const H5_KEY = process.env.AWS_H5_KEY || "tf_model.h5";
 export const MODEL_DIR = path.join(__dirname, "../../sentiment_model");
 export const TFJS_MODEL_DIR = path.join(MODEL_DIR, "tfjs");
+// Registry versions are stored as <prefix><version>/tf_model.h5 (plus optional tokenizer and meta files)
+export const MODEL_PREFIX = process.env.AWS_MODEL_PREFIX || "models/";
+
+async function downloadObject(key: string, filePath: string): Promise<void> {
+  const command = new GetObjectCommand({ Bucket: BUCKET_NAME, Key: key });
+  const { Body } = await s3Client.send(command);
+
+  if (!Body) {
+    throw new Error(`Failed to retrieve ${key} from S3 bucket ${BUCKET_NAME}`);
+  }
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const writeStream = require("fs").createWriteStream(filePath);
+  await new Promise((resolve, reject) => {
+    (Body as NodeJS.ReadableStream).pipe(writeStream);
+    writeStream.on("finish", () => resolve(void 0));
+    writeStream.on("error", (err: Error) => reject(err));
+  });
+}
+
+export async function listModelVersionsFromS3(): Promise<string[]> {
+  const { CommonPrefixes } = await s3Client.send(
+    new ListObjectsV2Command({ Bucket: BUCKET_NAME, Prefix: MODEL_PREFIX, Delimiter: "/" })
+  );
+  return (CommonPrefixes || [])
+    .map(({ Prefix }) => (Prefix || "").slice(MODEL_PREFIX.length).replace(/\/$/, ""))
+    .filter(Boolean);
+}
+
+export async function downloadModelVersionFromS3(version: string, destDir: string): Promise<void> {
+  console.log(`Downloading model version ${version} from S3...`);
+  const prefix = `${MODEL_PREFIX}${version}/`;
+  let continuationToken: string | undefined;
+
+  try {
+    do {
+      const page = await s3Client.send(
+        new ListObjectsV2Command({ Bucket: BUCKET_NAME, Prefix: prefix, ContinuationToken: continuationToken })
+      );
+      for (const { Key } of page.Contents || []) {
+        if (!Key || Key.endsWith("/")) continue;
+        await downloadObject(Key, path.join(destDir, Key.slice(prefix.length)));
+      }
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    console.log(`Model version ${version} downloaded to ${destDir}`);
+  } catch (error) {
+    // Do not leave a half-downloaded version behind
+    await fs.rm(destDir, { recursive: true, force: true });
+    console.error(`Failed to download model version ${version}:`, error);
+    throw error;
+  }
+}
 
 export async function downloadModelFromS3(): Promise<void> {
   console.log("Downloading model from S3...");
@@ -0,0 +1,26 @@
+import { Db, MongoClient } from "mongodb";
+
+let db: Db | null = null;
+
+// Connect to the sentiment history database; without SENTIMENT_DB_URL history stays in memory only
+export async function connectDB(): Promise<Db | null> {
+  const url = process.env.SENTIMENT_DB_URL || process.env.DB_URL;
+  if (!url) {
+    console.warn("No SENTIMENT_DB_URL set. Sentiment history will not be persisted.");
+    return null;
+  }
+
+  try {
+    const client = await new MongoClient(url).connect();
+    db = client.db(process.env.SENTIMENT_DB_NAME || undefined);
+    console.log(`Sentiment database connected to ${db.databaseName}`);
+  } catch (error) {
+    console.error("Failed to connect sentiment database:", error);
+    db = null;
+  }
+  return db;
+}
+
+export function getDB(): Db | null {
+  return db;
+}
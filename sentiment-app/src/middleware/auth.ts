@@ -0,0 +1,96 @@
+import crypto from "crypto";
+import { IncomingMessage } from "http";
+import { NextFunction, Request, Response } from "express";
+import jwt, { JwtPayload } from "jsonwebtoken";
+import { ObjectId } from "mongodb";
+import { getDB } from "../config/db";
+
+// Event ownership lives in the main server's database; WS_CHECK_EVENT_ACCESS=false is the only way to skip the check
+const CHECK_EVENT_ACCESS = process.env.WS_CHECK_EVENT_ACCESS !== "false";
+
+function readCookie(req: IncomingMessage, name: string): string | undefined {
+  const header = req.headers.cookie;
+  if (!header) return undefined;
+  for (const part of header.split(";")) {
+    const [key, ...value] = part.trim().split("=");
+    if (key === name) return decodeURIComponent(value.join("="));
+  }
+  return undefined;
+}
+
+// Verify the access_token cookie issued by the main server (same ACCESS_TOKEN secret)
+export function authenticateRequest(req: IncomingMessage): JwtPayload | null {
+  const token = readCookie(req, "access_token");
+  if (!token || !process.env.ACCESS_TOKEN) return null;
+
+  try {
+    const decoded = jwt.verify(token, process.env.ACCESS_TOKEN);
+    return typeof decoded === "object" && decoded.id ? decoded : null;
+  } catch {
+    return null;
+  }
+}
+
+// A user may watch events they created or were added to. Without the database nobody can be checked, so nobody may.
+export async function canAccessEvent(userId: string, eventId: string): Promise<boolean> {
+  if (!CHECK_EVENT_ACCESS) return true;
+  const db = getDB();
+  if (!db) {
+    console.error("Event access denied: no database to check it against (set WS_CHECK_EVENT_ACCESS=false to skip)");
+    return false;
+  }
+  if (!ObjectId.isValid(eventId) || !ObjectId.isValid(userId)) return false;
+
+  const event = new ObjectId(eventId);
+  const user = new ObjectId(userId);
+  const [owned, connected] = await Promise.all([
+    db.collection("events").countDocuments({ _id: event, clientId: user }, { limit: 1 }),
+    db.collection("eventuserconnections").countDocuments({ eventId: event, userId: user }, { limit: 1 }),
+  ]);
+  return owned + connected > 0;
+}
+
+// Read endpoints of one event (?eventId=) need the same access_token cookie and event access as the WebSocket
+export async function requireEventAccess(req: Request, res: Response, next: NextFunction) {
+  const user = authenticateRequest(req);
+  if (!user) return res.status(401).json({ error: "Unauthorized" });
+
+  const { eventId } = req.query;
+  if (!eventId) return res.status(400).json({ error: "eventId is required" });
+
+  try {
+    if (!(await canAccessEvent(String(user.id), String(eventId)))) {
+      return res.status(403).json({ error: "Not allowed to view this event" });
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Compare a request's bearer token with a configured one in constant time
+function bearerMatches(req: Request, token: string): boolean {
+  const given = Buffer.from(req.headers.authorization || "");
+  const expected = Buffer.from(`Bearer ${token}`);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+}
+
+// Scores written into an event's series only come from the main server, which sends SCORING_TOKEN as a bearer
+// token. Signed-in users may still score without recording (record=false), e.g. to explain dashboard feedback.
+export function requireScoringAccess(req: Request, res: Response, next: NextFunction) {
+  const token = process.env.SCORING_TOKEN;
+  if (token && bearerMatches(req, token)) return next();
+
+  const recording = !(req.query.record === "false" || req.body?.record === false);
+  if (!recording && authenticateRequest(req)) return next();
+  if (!token && recording) return res.status(503).json({ error: "Recording scores is disabled" });
+  res.status(401).json({ error: "Unauthorized" });
+}
+
+// Model administration is for operators only: it needs MODEL_ADMIN_TOKEN as a bearer token
+export function requireAdminToken(req: Request, res: Response, next: NextFunction) {
+  const token = process.env.MODEL_ADMIN_TOKEN;
+  if (!token) return res.status(503).json({ error: "Model administration is disabled" });
+  if (!bearerMatches(req, token)) return res.status(401).json({ error: "Unauthorized" });
+  next();
+}
@@ -1,24 +1,241 @@
-import { Router } from "express";
-import { analyzeSentiment, sentimentData } from "../utils/sentiment";
-import { broadcastSentiment } from "../utils/websocket";
-import { wss } from "../server";
+import { NextFunction, Request, Response, Router } from "express";
+import { aggregateAspects, aggregateSentiment, LIVE_WINDOW_MS, recordSentiment, sentimentScore } from "../utils/sentiment";
+import { enqueueSentiment, getQueueMetrics } from "../utils/batchQueue";
+import { scoreShortFeedback } from "../utils/emoji";
+import { explainSentiment } from "../utils/explain";
+import {
+  persistSentiment,
+  querySentimentAspects,
+  querySentimentHistory,
+  SENTIMENT_GRANULARITIES,
+} from "../utils/sentimentStore";
+import { getDB } from "../config/db";
+import { requireEventAccess, requireScoringAccess } from "../middleware/auth";
+import { publishSentiment } from "../utils/websocket";
+import { SentimentContext, SentimentData, SentimentGranularity, SentimentGroupBy, SentimentResult } from "../types";
 
 const router = Router();
 
-router.post("/", async (req: Request, res: Response) => {
+const MAX_BATCH_REQUEST = parseInt(process.env.BATCH_MAX_REQUEST_SIZE || "256", 10);
+// Each explained text costs a forward pass per word, so explain=true batches are much smaller
+const MAX_EXPLAIN_REQUEST = parseInt(process.env.BATCH_MAX_EXPLAIN_SIZE || "16", 10);
+const DEFAULT_CHANNEL = "api";
+const SHORT_FEEDBACK_CHANNEL = "shortFeedback";
+const DEFAULT_HISTORY_MS = 24 * 60 * 60 * 1000;
+
+// eventId is required so concurrent events never share a series; channel and zone are optional
+function parseContext(body: any): SentimentContext | null {
+  if (!body?.eventId || typeof body.eventId !== "string") return null;
+  return {
+    eventId: body.eventId,
+    channel: typeof body.channel === "string" && body.channel ? body.channel : DEFAULT_CHANNEL,
+    zone: typeof body.zone === "string" && body.zone ? body.zone : undefined,
+  };
+}
+
+// explain=true (query or body) adds token attributions to each result; record=false scores without adding
+// to any series, e.g. to explain feedback already on a dashboard or to re-score it after a model change
+function parseFlags(req: Request): { explain: boolean; record: boolean } {
+  return {
+    explain: req.query.explain === "true" || req.body.explain === true,
+    record: !(req.query.record === "false" || req.body.record === false),
+  };
+}
+
+// One text at a time, so a batch never holds the model for more than one text's variants
+async function withExplanations(texts: string[], results: SentimentResult[]): Promise<SentimentResult[]> {
+  const explained: SentimentResult[] = [];
+  for (const [index, result] of results.entries()) {
+    explained.push({ ...result, explanation: await explainSentiment(texts[index], result) });
+  }
+  return explained;
+}
+
+function recordResults(contexts: SentimentContext[], results: SentimentResult[]): void {
+  const timestamp = Date.now();
+  const items: SentimentData[] = results.map((result, index) => ({
+    ...contexts[index],
+    timestamp,
+    score: sentimentScore(result.probabilities),
+    label: result.sentiment,
+    probabilities: result.probabilities,
+    analyzer: result.analyzer,
+    aspects: result.aspects,
+    language: result.language,
+  }));
+  items.forEach(recordSentiment);
+  persistSentiment(items).catch((error) => console.error("Failed to persist sentiment:", error));
+  publishSentiment(items);
+}
+
+router.post("/", requireScoringAccess, async (req: Request, res: Response, next: NextFunction) => {
   const { text } = req.body;
   if (!text) return res.status(400).json({ error: "Text is required" });
 
+  const { explain, record } = parseFlags(req);
+  const context = parseContext(req.body);
+  if (!context && record) return res.status(400).json({ error: "eventId is required" });
+
   try {
-    const { sentiment, confidence } = await analyzeSentiment(text);
-    sentimentData.push({ timestamp: Date.now(), score: confidence });
-    broadcastSentiment(wss);
+    const [result] = await enqueueSentiment([text]);
+    if (context && record) recordResults([context], [result]);
 
-    res.json({ sentiment, confidence });
-  } catch (error) {
+    res.json(explain ? (await withExplanations([text], [result]))[0] : result);
+  } catch (error: any) {
+    if (error.statusCode) return next(error);
     console.error(error);
     res.status(500).json({ error: "Sentiment analysis failed" });
   }
 });
 
-export default router;
\ No newline at end of file
+// Reaction emoji with an optional description: { eventId, zone?, emoji, description?, valences? }.
+// valences carries the event's emoji overrides, e.g. { "😐": -0.2 }.
+router.post("/short", requireScoringAccess, async (req: Request, res: Response, next: NextFunction) => {
+  const { emoji, description, valences } = req.body;
+  if (!emoji || typeof emoji !== "string") return res.status(400).json({ error: "emoji is required" });
+  if (description !== undefined && description !== null && typeof description !== "string") {
+    return res.status(400).json({ error: "description must be a string" });
+  }
+  // Same range as the server's emojiValences; anything outside would turn into probabilities outside [0, 1]
+  const isValence = (value: unknown) => typeof value === "number" && value >= -1 && value <= 1;
+  if (valences && (typeof valences !== "object" || Array.isArray(valences) || !Object.values(valences).every(isValence))) {
+    return res.status(400).json({ error: "valences must map emoji to numbers between -1 and 1" });
+  }
+
+  const { record } = parseFlags(req);
+  const context = parseContext({ channel: SHORT_FEEDBACK_CHANNEL, ...req.body });
+  if (!context && record) return res.status(400).json({ error: "eventId is required" });
+
+  try {
+    const [result] = await scoreShortFeedback([{ emoji, description: description || undefined }], valences || {});
+    if (context && record) recordResults([context], [result]);
+
+    res.json(result);
+  } catch (error: any) {
+    if (error.statusCode) return next(error);
+    console.error(error);
+    res.status(500).json({ error: "Sentiment analysis failed" });
+  }
+});
+
+// Either { eventId, channel?, zone?, texts: [...] } or { items: [{ text, eventId, channel?, zone? }] }
+router.post("/batch", requireScoringAccess, async (req: Request, res: Response, next: NextFunction) => {
+  const items: any[] = Array.isArray(req.body.items)
+    ? req.body.items
+    : Array.isArray(req.body.texts)
+      ? req.body.texts.map((text: unknown) => ({ ...req.body, texts: undefined, text }))
+      : [];
+
+  if (!items.length || items.some((item) => typeof item?.text !== "string" || !item.text)) {
+    return res.status(400).json({ error: "texts must be a non-empty array of strings" });
+  }
+  if (items.length > MAX_BATCH_REQUEST) {
+    return res.status(413).json({ error: `At most ${MAX_BATCH_REQUEST} texts per request` });
+  }
+
+  const { explain, record } = parseFlags(req);
+  if (explain && items.length > MAX_EXPLAIN_REQUEST) {
+    return res.status(413).json({ error: `At most ${MAX_EXPLAIN_REQUEST} texts per request with explain=true` });
+  }
+  const contexts = items.map(parseContext);
+  if (record && contexts.some((context) => !context)) {
+    return res.status(400).json({ error: "eventId is required for every text" });
+  }
+
+  try {
+    const texts = items.map(({ text }) => text);
+    const results = await enqueueSentiment(texts);
+    if (record) recordResults(contexts as SentimentContext[], results);
+
+    res.json({ results: explain ? await withExplanations(texts, results) : results });
+  } catch (error: any) {
+    if (error.statusCode) return next(error);
+    console.error(error);
+    res.status(500).json({ error: "Sentiment analysis failed" });
+  }
+});
+
+// Minute buckets of one event (filter by zone/channel, split with groupBy=zone|channel)
+router.get("/aggregate", requireEventAccess, (req: Request, res: Response) => {
+  const { eventId, zone, channel, groupBy } = req.query;
+  if (!eventId) return res.status(400).json({ error: "eventId is required" });
+  if (groupBy && groupBy !== "zone" && groupBy !== "channel") {
+    return res.status(400).json({ error: "groupBy must be zone or channel" });
+  }
+
+  res.json({
+    data: aggregateSentiment({
+      eventId: String(eventId),
+      zone: zone ? String(zone) : undefined,
+      channel: channel ? String(channel) : undefined,
+      groupBy: groupBy as SentimentGroupBy | undefined,
+    }),
+  });
+});
+
+// Stored buckets of one event by range and granularity (1m, 15m, 1h or 1d; picked from the range when omitted)
+router.get("/history", requireEventAccess, async (req: Request, res: Response, next: NextFunction) => {
+  const { eventId, zone, channel, groupBy, granularity } = req.query;
+  if (!eventId) return res.status(400).json({ error: "eventId is required" });
+  if (groupBy && groupBy !== "zone" && groupBy !== "channel") {
+    return res.status(400).json({ error: "groupBy must be zone or channel" });
+  }
+  if (granularity && !SENTIMENT_GRANULARITIES.includes(granularity as SentimentGranularity)) {
+    return res.status(400).json({ error: `granularity must be one of ${SENTIMENT_GRANULARITIES.join(", ")}` });
+  }
+
+  const to = req.query.to ? new Date(String(req.query.to)) : new Date();
+  const from = req.query.from ? new Date(String(req.query.from)) : new Date(to.getTime() - DEFAULT_HISTORY_MS);
+  if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+    return res.status(400).json({ error: "Invalid date range" });
+  }
+
+  try {
+    const data = await querySentimentHistory({
+      eventId: String(eventId),
+      from,
+      to,
+      granularity: granularity as SentimentGranularity | undefined,
+      zone: zone ? String(zone) : undefined,
+      channel: channel ? String(channel) : undefined,
+      groupBy: groupBy as SentimentGroupBy | undefined,
+    });
+    res.json({ from, to, data });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Per-aspect polarity of one event over a range, worst impact first.
+// Without a database only the live window is available.
+router.get("/aspects", requireEventAccess, async (req: Request, res: Response, next: NextFunction) => {
+  const { eventId, zone, channel } = req.query;
+  if (!eventId) return res.status(400).json({ error: "eventId is required" });
+
+  const to = req.query.to ? new Date(String(req.query.to)) : new Date();
+  const from = req.query.from ? new Date(String(req.query.from)) : new Date(to.getTime() - DEFAULT_HISTORY_MS);
+  if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+    return res.status(400).json({ error: "Invalid date range" });
+  }
+
+  const filters = {
+    eventId: String(eventId),
+    zone: zone ? String(zone) : undefined,
+    channel: channel ? String(channel) : undefined,
+  };
+  try {
+    const data = getDB()
+      ? await querySentimentAspects({ ...filters, from, to })
+      : aggregateAspects({ ...filters, since: Math.max(from.getTime(), Date.now() - LIVE_WINDOW_MS) });
+    res.json({ from, to, data });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Queue depth, batch sizes and latency percentiles
+router.get("/metrics", (req: Request, res: Response) => {
+  res.json(getQueueMetrics());
+});
+
+export default router;
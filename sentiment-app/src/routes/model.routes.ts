@@ -0,0 +1,48 @@
+import { NextFunction, Request, Response, Router } from "express";
+import { requireAdminToken } from "../middleware/auth";
+import { activateModelVersion, getRegistryStatus, listModelVersions, rollbackModel } from "../utils/modelRegistry";
+
+const router = Router();
+
+router.use(requireAdminToken);
+
+// Available versions plus the active, loading and previous ones
+router.get("/", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json({ ...getRegistryStatus(), versions: await listModelVersions() });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Load a version in the background and switch to it once ready; poll GET / for the outcome
+router.post("/:version/activate", async (req: Request, res: Response, next: NextFunction) => {
+  const { version } = req.params;
+  if (!/^[\w.-]+$/.test(version)) return res.status(400).json({ error: "Invalid version" });
+
+  try {
+    const { loading } = getRegistryStatus();
+    if (loading) return res.status(409).json({ error: `Model version ${loading} is still loading` });
+    if (!(await listModelVersions()).some((info) => info.version === version)) {
+      return res.status(404).json({ error: `Model version ${version} not found` });
+    }
+
+    // Failures are logged and reported as lastError by GET /
+    activateModelVersion(version).catch(() => undefined);
+    res.status(202).json({ loading: version });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Switch back to the previously active version
+router.post("/rollback", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const version = await rollbackModel();
+    res.json({ active: version });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -3,11 +3,14 @@ import express, { NextFunction, Request, Response } from "express";
 import cors from "cors";
 import { rateLimit } from "express-rate-limit";
 import { ErrorMiddleware } from "./middleware/error";
-import feedbackRouter from "./routes/feedback.route"; // Singular
+import feedbackRouter from "./routes/feedback.routes";
+import modelRouter from "./routes/model.routes";
 import { initializeWebSocket } from "./utils/websocket";
 import { loadModel } from "./utils/sentiment";
 import http from "http";
 import cookieParser from "cookie-parser";
+import { connectDB } from "./config/db";
+import { initSentimentStore } from "./utils/sentimentStore";
 
 export const app = express();
 const server = http.createServer(app);
@@ -44,6 +47,7 @@ app.use(limiter);
 
 // Routes
 app.use("/api/v1/feedback", feedbackRouter);
+app.use("/api/v1/models", modelRouter);
 
 // Test Routes
 app.get("/", (req: Request, res: Response) => {
@@ -68,11 +72,11 @@ app.use(ErrorMiddleware);
 (async () => {
   console.log("Starting server...");
   await loadModel();
+  await connectDB();
+  await initSentimentStore().catch((error) => console.error("Failed to prepare sentiment store:", error));
   initializeWebSocket(server);
   const port = parseInt(process.env.PORT || "3001", 10);
   server.listen(port, () => {
     console.log(`Server running on port ${port}`);
   });
-})();
-
-export const wss = initializeWebSocket(server);
\ No newline at end of file
+})();
\ No newline at end of file
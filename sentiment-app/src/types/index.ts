@@ -1,18 +1,169 @@
 import { LayersModel } from "@tensorflow/tfjs-node";
 
-export interface SentimentData {
+export type SentimentLabel = "negative" | "neutral" | "positive";
+
+export interface SentimentProbabilities {
+  negative: number;
+  neutral: number;
+  positive: number;
+}
+
+// "lexicon" marks results from the rule-based fallback, used while no model is loaded or the model fails;
+// "emoji" marks short feedback scored from its reaction emoji alone
+export type SentimentAnalyzer = "model" | "lexicon" | "emoji";
+
+// One entry of the aspect taxonomy, e.g. { name: "wifi", label: "Wi-Fi", keywords: ["wifi", "internet"] }
+export interface AspectDefinition {
+  name: string;
+  label: string;
+  keywords: string[];
+}
+
+// What a text says about one aspect: score is -1..1 from the clauses that mention it
+export interface AspectSentiment {
+  aspect: string;
+  polarity: SentimentLabel;
+  score: number;
+  mentions: string[];
+}
+
+// Detected language of a text; "hinglish" is Hindi written in Latin script, often mixed with English
+export type SentimentLanguage = "en" | "hi" | "bn" | "hinglish" | "unknown";
+
+// Where a text came from, e.g. "feedback", "shortFeedback", "issue" (same names as the server's signal sources)
+export type SentimentChannel = string;
+
+export interface SentimentContext {
+  eventId: string;
+  channel: SentimentChannel;
+  // Venue location id the text was submitted from, when known
+  zone?: string;
+}
+
+export interface SentimentData extends SentimentContext {
   timestamp: number;
+  // 0 = certainly negative, 0.5 = neutral, 1 = certainly positive
   score: number;
+  label: SentimentLabel;
+  probabilities: SentimentProbabilities;
+  analyzer: SentimentAnalyzer;
+  aspects: AspectSentiment[];
+  language: SentimentLanguage;
+}
+
+export type SentimentGroupBy = "zone" | "channel";
+
+export interface SentimentQuery {
+  eventId: string;
+  zone?: string;
+  channel?: SentimentChannel;
+  groupBy?: SentimentGroupBy;
+  since?: number;
+}
+
+// What a dashboard socket subscribes to: one event, optionally narrowed or split by zone/channel
+export type SentimentTopic = Omit<SentimentQuery, "since">;
+
+export type ClientMessage =
+  | { type: "subscribe"; id?: string; topic: SentimentTopic; since?: number }
+  | { type: "unsubscribe"; id?: string; topic: SentimentTopic }
+  | { type: "ping"; id?: string };
+
+// Deltas carry whole minute buckets that changed; clients replace buckets with the same timestamp (and zone/channel)
+export type ServerMessage =
+  | { type: "welcome"; heartbeatMs: number }
+  | { type: "subscribed"; id?: string; topic: string; snapshot: AggregatedSentiment[]; ts: number }
+  | { type: "unsubscribed"; id?: string; topic: string }
+  | { type: "delta"; topic: string; data: AggregatedSentiment[]; ts: number }
+  | { type: "pong"; id?: string; ts: number }
+  | { type: "error"; id?: string; message: string };
+
+export type SentimentGranularity = "1m" | "15m" | "1h" | "1d";
+
+export interface SentimentHistoryQuery {
+  eventId: string;
+  from: Date;
+  to: Date;
+  granularity?: SentimentGranularity;
+  zone?: string;
+  channel?: SentimentChannel;
+  groupBy?: SentimentGroupBy;
 }
 
 export interface AggregatedSentiment {
   timestamp: number;
+  eventId: string;
+  // Set when the aggregate is grouped by zone or channel
+  zone?: string;
+  channel?: SentimentChannel;
   average: number;
+  count: number;
+  // Mean probability of each class in the bucket
+  negative: number;
+  neutral: number;
+  positive: number;
+  // Number of items whose argmax label is each class
+  labels: { [label in SentimentLabel]: number };
+  // Number of items scored by each analyzer; any lexicon items mean the bucket is degraded
+  analyzers: { [analyzer in SentimentAnalyzer]: number };
+  // Number of items in each detected language
+  languages: { [language in SentimentLanguage]: number };
+}
+
+// Mentions of one aspect over a range of an event. impact is the aspect's score summed over every scored
+// item of the range, per item, so the most negative impact is the aspect dragging overall sentiment down.
+export interface AggregatedAspect {
+  aspect: string;
+  label: string;
+  count: number;
+  average: number;
+  impact: number;
+  polarities: { [label in SentimentLabel]: number };
+}
+
+// Valence (-1..1) per reaction emoji; events may override any of the defaults
+export type EmojiValences = { [emoji: string]: number };
+
+export interface ShortFeedbackInput {
+  emoji: string;
+  description?: string;
+}
+
+// How much one word of the text pushed the result: > 0 towards positive, < 0 towards negative.
+// start/end are UTF-16 offsets into the submitted text.
+export interface TokenAttribution {
+  token: string;
+  start: number;
+  end: number;
+  weight: number;
+}
+
+// "occlusion" drops each word in turn and measures the model's change in positive minus negative probability;
+// "lexicon" reports the valence each word contributed to the lexicon score
+export type ExplanationMethod = "occlusion" | "lexicon";
+
+export interface SentimentExplanation {
+  method: ExplanationMethod;
+  modelVersion: string | null;
+  tokens: TokenAttribution[];
 }
 
 export interface SentimentResult {
-  sentiment: string;
+  sentiment: SentimentLabel;
   confidence: number;
+  probabilities: SentimentProbabilities;
+  // Registry version of the model that produced the result, null when no model is loaded
+  modelVersion: string | null;
+  analyzer: SentimentAnalyzer;
+  aspects: AspectSentiment[];
+  language: SentimentLanguage;
+  // Only with explain=true
+  explanation?: SentimentExplanation;
+}
+
+export interface ShortFeedbackResult extends SentimentResult {
+  emoji: string;
+  valence: number;
 }
 
 export let model: LayersModel;
\ No newline at end of file
@@ -0,0 +1,147 @@
+import { readFileSync } from "fs";
+import { analyzeLexicon } from "./lexicon";
+import { AspectDefinition, AspectSentiment, SentimentLabel, SentimentResult } from "../types";
+
+// Default event taxonomy; ASPECT_TAXONOMY_PATH may point to a JSON array of { name, label, keywords } instead
+const DEFAULT_TAXONOMY: AspectDefinition[] = [
+  {
+    name: "audio",
+    label: "Audio/AV",
+    keywords: [
+      "audio", "sound", "mic", "mics", "microphone", "volume", "echo", "muffled", "inaudible", "projector", "screen",
+      "screens", "slides", "av", "video", "stream", "livestream", "hdmi",
+    ],
+  },
+  {
+    name: "wifi",
+    label: "Wi-Fi",
+    keywords: ["wifi", "wi-fi", "internet", "network", "connection", "connectivity", "signal", "hotspot"],
+  },
+  {
+    name: "food",
+    label: "Food",
+    keywords: [
+      "food", "lunch", "breakfast", "dinner", "snack", "snacks", "coffee", "tea", "catering", "meal", "meals", "drinks",
+      "water", "buffet",
+    ],
+  },
+  {
+    name: "queues",
+    label: "Queues",
+    keywords: ["queue", "queues", "line", "lines", "wait", "waiting", "registration", "check-in", "entry", "badge pickup"],
+  },
+  {
+    name: "seating",
+    label: "Seating",
+    keywords: ["seat", "seats", "seating", "chair", "chairs", "standing room", "crowded", "overcrowded", "cramped"],
+  },
+  {
+    name: "climate",
+    label: "Climate",
+    keywords: [
+      "ac", "aircon", "air conditioning", "temperature", "freezing", "chilly", "stuffy", "heating", "ventilation",
+      "humid", "sweltering",
+    ],
+  },
+  {
+    name: "content",
+    label: "Content",
+    keywords: [
+      "content", "session", "sessions", "talk", "talks", "topic", "topics", "agenda", "workshop", "workshops",
+      "keynote", "presentation", "demo", "demos",
+    ],
+  },
+  {
+    name: "speakers",
+    label: "Speakers",
+    keywords: ["speaker", "speakers", "presenter", "presenters", "host", "moderator", "panel", "panelist", "panelists"],
+  },
+  {
+    name: "safety",
+    label: "Safety",
+    keywords: [
+      "safety", "safe", "unsafe", "security", "emergency", "exit", "exits", "fire", "guard", "guards", "first aid",
+      "stampede",
+    ],
+  },
+];
+
+// Clause polarity below this magnitude counts as neutral, as with VADER's compound score
+const POLARITY_THRESHOLD = 0.05;
+// Sentences and contrasts ("great speaker but the AC is broken") separate what is said about each aspect
+const CLAUSE_PATTERN = /[.!?;\n]+|\s+(?:but|however|although|though|whereas|except)\s+/i;
+const WORD_PATTERN = /[\p{L}\p{N}][\p{L}\p{N}'\-]*/gu;
+// Aspect names end up as keys in stored rollups
+const ASPECT_NAME_PATTERN = /^[a-z][a-z0-9_-]*$/;
+
+function loadTaxonomy(): AspectDefinition[] {
+  const file = process.env.ASPECT_TAXONOMY_PATH;
+  if (!file) return DEFAULT_TAXONOMY;
+
+  try {
+    const taxonomy: AspectDefinition[] = JSON.parse(readFileSync(file, "utf8"));
+    const invalid = taxonomy.find(
+      (aspect) => !ASPECT_NAME_PATTERN.test(aspect?.name) || !Array.isArray(aspect.keywords) || !aspect.keywords.length
+    );
+    if (invalid) throw new Error(`Invalid aspect ${JSON.stringify(invalid?.name)}`);
+    return taxonomy.map((aspect) => ({ ...aspect, label: aspect.label || aspect.name }));
+  } catch (error) {
+    console.error(`Failed to load aspect taxonomy from ${file}, using the default one:`, error);
+    return DEFAULT_TAXONOMY;
+  }
+}
+
+export const ASPECT_TAXONOMY = loadTaxonomy();
+
+// Keywords as word sequences so multi-word ones ("air conditioning") match across tokens
+const MATCHERS = ASPECT_TAXONOMY.map((aspect) => ({
+  name: aspect.name,
+  keywords: aspect.keywords.map((keyword) => keyword.toLowerCase().match(WORD_PATTERN) || []),
+}));
+
+const words = (text: string) => text.toLowerCase().match(WORD_PATTERN) || [];
+
+function findKeywords(tokens: string[], keywords: string[][]): string[] {
+  return keywords
+    .filter(
+      (keyword) =>
+        keyword.length &&
+        tokens.some((_, start) => keyword.every((word, offset) => tokens[start + offset] === word))
+    )
+    .map((keyword) => keyword.join(" "));
+}
+
+const polarityOf = (score: number): SentimentLabel =>
+  score >= POLARITY_THRESHOLD ? "positive" : score <= -POLARITY_THRESHOLD ? "negative" : "neutral";
+
+// Find the taxonomy aspects a text mentions and the polarity of what is said about each.
+// Each clause is scored on its own; a clause with no sentiment words of its own takes the overall result.
+export function extractAspects(text: string, overall: SentimentResult): AspectSentiment[] {
+  const found = new Map<string, { scores: number[]; mentions: Set<string> }>();
+  const overallScore = overall.probabilities.positive - overall.probabilities.negative;
+
+  text.split(CLAUSE_PATTERN).forEach((clause) => {
+    const tokens = words(clause);
+    if (!tokens.length) return;
+
+    let clauseScore: number | null = null;
+    MATCHERS.forEach(({ name, keywords }) => {
+      const mentions = findKeywords(tokens, keywords);
+      if (!mentions.length) return;
+
+      if (clauseScore === null) {
+        const { compound, contributions } = analyzeLexicon(clause);
+        clauseScore = contributions.length ? compound : overallScore;
+      }
+      const aspect = found.get(name) || { scores: [], mentions: new Set<string>() };
+      aspect.scores.push(clauseScore);
+      mentions.forEach((mention) => aspect.mentions.add(mention));
+      found.set(name, aspect);
+    });
+  });
+
+  return [...found.entries()].map(([aspect, { scores, mentions }]) => {
+    const score = scores.reduce((total, value) => total + value, 0) / scores.length;
+    return { aspect, polarity: polarityOf(score), score, mentions: [...mentions] };
+  });
+}
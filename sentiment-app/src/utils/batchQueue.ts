@@ -0,0 +1,138 @@
+import { analyzeSentimentBatch } from "./sentiment";
+import { SentimentResult } from "../types";
+
+// A batch is sent to the model once it is full or its oldest text has waited this long
+export const MAX_BATCH_SIZE = parseInt(process.env.BATCH_MAX_SIZE || "32", 10);
+const MAX_WAIT_MS = parseInt(process.env.BATCH_MAX_WAIT_MS || "20", 10);
+// Texts waiting beyond this are rejected with 429 instead of growing latency without bound
+const MAX_QUEUE_SIZE = parseInt(process.env.BATCH_MAX_QUEUE_SIZE || "1000", 10);
+const LATENCY_SAMPLES = 1000;
+
+interface QueuedText {
+  text: string;
+  enqueuedAt: number;
+  resolve: (result: SentimentResult) => void;
+  reject: (error: Error) => void;
+}
+
+const queue: QueuedText[] = [];
+let timer: NodeJS.Timeout | null = null;
+// Texts in the batch the model is scoring; one batch at a time, so waiting work stays in the queue and counts
+let inFlight = 0;
+
+const metrics = {
+  enqueued: 0,
+  rejected: 0,
+  failed: 0,
+  batches: 0,
+  batchedTexts: 0,
+  maxQueueDepth: 0,
+  latencies: [] as number[],
+  inferenceTimes: [] as number[],
+};
+
+const record = (samples: number[], value: number) => {
+  samples.push(value);
+  if (samples.length > LATENCY_SAMPLES) samples.shift();
+};
+
+const percentile = (samples: number[], p: number) => {
+  if (!samples.length) return 0;
+  const sorted = [...samples].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))];
+};
+
+async function flush(): Promise<void> {
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+  // The running batch schedules the next one when it finishes
+  if (inFlight) return;
+
+  const batch = queue.splice(0, MAX_BATCH_SIZE);
+  if (!batch.length) return;
+
+  inFlight += batch.length;
+  const started = Date.now();
+  try {
+    const results = await analyzeSentimentBatch(batch.map(({ text }) => text));
+    const finished = Date.now();
+    metrics.batches += 1;
+    metrics.batchedTexts += batch.length;
+    record(metrics.inferenceTimes, finished - started);
+    batch.forEach((item, index) => {
+      record(metrics.latencies, finished - item.enqueuedAt);
+      item.resolve(results[index]);
+    });
+  } catch (error: any) {
+    metrics.failed += batch.length;
+    batch.forEach((item) => item.reject(error));
+  } finally {
+    inFlight -= batch.length;
+    // Whatever queued up meanwhile has waited long enough and goes out straight away
+    if (queue.length) setImmediate(flush);
+  }
+}
+
+function schedule(): void {
+  if (inFlight) return;
+  if (queue.length >= MAX_BATCH_SIZE) {
+    setImmediate(flush);
+  } else if (!timer) {
+    timer = setTimeout(flush, MAX_WAIT_MS);
+  }
+}
+
+export function queueFullError(): Error {
+  const err = new Error("Sentiment queue is full, retry later") as any;
+  err.statusCode = 429;
+  return err;
+}
+
+// Queue texts for scoring; all of them are accepted or, when the queue has no room, none are.
+// Texts being scored count against the room too.
+export function enqueueSentiment(texts: string[]): Promise<SentimentResult[]> {
+  if (queue.length + inFlight + texts.length > MAX_QUEUE_SIZE) {
+    metrics.rejected += texts.length;
+    return Promise.reject(queueFullError());
+  }
+
+  const enqueuedAt = Date.now();
+  const results = texts.map(
+    (text) =>
+      new Promise<SentimentResult>((resolve, reject) => {
+        queue.push({ text, enqueuedAt, resolve, reject });
+      })
+  );
+  metrics.enqueued += texts.length;
+  metrics.maxQueueDepth = Math.max(metrics.maxQueueDepth, queue.length);
+  schedule();
+
+  return Promise.all(results);
+}
+
+export function getQueueMetrics() {
+  return {
+    queueDepth: queue.length,
+    inFlight,
+    maxQueueDepth: metrics.maxQueueDepth,
+    maxQueueSize: MAX_QUEUE_SIZE,
+    maxBatchSize: MAX_BATCH_SIZE,
+    maxWaitMs: MAX_WAIT_MS,
+    enqueued: metrics.enqueued,
+    rejected: metrics.rejected,
+    failed: metrics.failed,
+    batches: metrics.batches,
+    averageBatchSize: metrics.batches ? metrics.batchedTexts / metrics.batches : 0,
+    latencyMs: {
+      p50: percentile(metrics.latencies, 50),
+      p95: percentile(metrics.latencies, 95),
+      p99: percentile(metrics.latencies, 99),
+    },
+    inferenceMs: {
+      p50: percentile(metrics.inferenceTimes, 50),
+      p95: percentile(metrics.inferenceTimes, 95),
+    },
+  };
+}
@@ -0,0 +1,59 @@
+import { enqueueSentiment } from "./batchQueue";
+import { lexiconEmojiValence } from "./lexicon";
+import { SENTIMENT_LABELS, toSentimentResult } from "./sentiment";
+import { EmojiValences, SentimentProbabilities, ShortFeedbackInput, ShortFeedbackResult } from "../types";
+
+// The reactions offered in the attendee app; anything else falls back to the lexicon's emoji valences
+export const DEFAULT_EMOJI_VALENCES: EmojiValences = {
+  "😍": 1,
+  "😊": 0.5,
+  "😐": 0,
+  "😕": -0.5,
+  "😞": -1,
+};
+
+// Share of the emoji in the score of short feedback that also has a description
+const EMOJI_WEIGHT = parseFloat(process.env.SHORT_FEEDBACK_EMOJI_WEIGHT || "0.6");
+
+export function emojiValence(emoji: string, overrides: EmojiValences = {}): number {
+  return overrides[emoji] ?? DEFAULT_EMOJI_VALENCES[emoji] ?? lexiconEmojiValence(emoji) ?? 0;
+}
+
+// Strong reactions leave little room for neutral; the rest is split by the sign of the valence
+export function emojiProbabilities(valence: number): SentimentProbabilities {
+  const neutral = 0.05 + 0.9 * (1 - Math.abs(valence)) ** 2;
+  const positiveShare = (1 + valence) / 2;
+  return { negative: (1 - neutral) * (1 - positiveShare), neutral, positive: (1 - neutral) * positiveShare };
+}
+
+// Score short feedback from its emoji, blended with the description's sentiment when there is one
+export async function scoreShortFeedback(
+  items: ShortFeedbackInput[],
+  overrides: EmojiValences = {}
+): Promise<ShortFeedbackResult[]> {
+  const described = items.filter(({ description }) => description?.trim());
+  const textResults = described.length
+    ? await enqueueSentiment(described.map(({ description }) => description!.trim()))
+    : [];
+
+  return items.map((item) => {
+    const valence = emojiValence(item.emoji, overrides);
+    const fromEmoji = emojiProbabilities(valence);
+    const textResult = textResults[described.indexOf(item)];
+    if (!textResult) {
+      return { ...toSentimentResult(fromEmoji, null, "emoji"), emoji: item.emoji, valence };
+    }
+
+    const blended = { ...fromEmoji };
+    SENTIMENT_LABELS.forEach((label) => {
+      blended[label] = EMOJI_WEIGHT * fromEmoji[label] + (1 - EMOJI_WEIGHT) * textResult.probabilities[label];
+    });
+    return {
+      ...toSentimentResult(blended, textResult.modelVersion, textResult.analyzer),
+      aspects: textResult.aspects,
+      language: textResult.language,
+      emoji: item.emoji,
+      valence,
+    };
+  });
+}
@@ -0,0 +1,162 @@
+import { SENTIMENT_LABELS } from "./sentiment";
+import { SentimentLabel, SentimentResult } from "../types";
+
+export interface LabeledExample {
+  text: string;
+  label: SentimentLabel;
+}
+
+export interface ClassMetrics {
+  precision: number;
+  recall: number;
+  f1: number;
+  support: number;
+}
+
+export interface CalibrationBucket {
+  // Confidence range [from, to)
+  from: number;
+  to: number;
+  count: number;
+  meanConfidence: number;
+  accuracy: number;
+}
+
+export interface Misclassification {
+  text: string;
+  expected: SentimentLabel;
+  predicted: SentimentLabel;
+  confidence: number;
+}
+
+export interface EvaluationReport {
+  examples: number;
+  accuracy: number;
+  macroF1: number;
+  perClass: { [label in SentimentLabel]: ClassMetrics };
+  // confusion[expected][predicted]
+  confusion: { [expected in SentimentLabel]: { [predicted in SentimentLabel]: number } };
+  // Expected calibration error: bucket-weighted gap between confidence and accuracy
+  ece: number;
+  calibration: CalibrationBucket[];
+  // Wrong predictions made with the highest confidence
+  worst: Misclassification[];
+}
+
+const LABEL_ALIASES: { [alias: string]: SentimentLabel } = {
+  negative: "negative", neg: "negative", "0": "negative",
+  neutral: "neutral", neu: "neutral", "1": "neutral",
+  positive: "positive", pos: "positive", "2": "positive",
+};
+
+// Accept class names, their short forms and the model's class indices (0 negative, 1 neutral, 2 positive)
+export function parseLabel(value: unknown): SentimentLabel | null {
+  return LABEL_ALIASES[String(value ?? "").trim().toLowerCase()] ?? null;
+}
+
+const emptyRow = () => ({ negative: 0, neutral: 0, positive: 0 });
+
+export function evaluatePredictions(
+  examples: LabeledExample[],
+  predictions: SentimentResult[],
+  options: { bins?: number; worst?: number } = {}
+): EvaluationReport {
+  const { bins = 10, worst = 10 } = options;
+  const confusion = { negative: emptyRow(), neutral: emptyRow(), positive: emptyRow() };
+  const buckets = Array.from({ length: bins }, () => ({ count: 0, confidence: 0, correct: 0 }));
+  const misclassified: Misclassification[] = [];
+
+  examples.forEach((example, index) => {
+    const { sentiment, confidence } = predictions[index];
+    const correct = sentiment === example.label;
+    confusion[example.label][sentiment] += 1;
+
+    const bucket = buckets[Math.min(bins - 1, Math.floor(confidence * bins))];
+    bucket.count += 1;
+    bucket.confidence += confidence;
+    bucket.correct += correct ? 1 : 0;
+
+    if (!correct) misclassified.push({ text: example.text, expected: example.label, predicted: sentiment, confidence });
+  });
+
+  const total = examples.length;
+  const perClass = {} as EvaluationReport["perClass"];
+  SENTIMENT_LABELS.forEach((label) => {
+    const truePositives = confusion[label][label];
+    const predicted = SENTIMENT_LABELS.reduce((sum, expected) => sum + confusion[expected][label], 0);
+    const support = SENTIMENT_LABELS.reduce((sum, other) => sum + confusion[label][other], 0);
+    const precision = predicted ? truePositives / predicted : 0;
+    const recall = support ? truePositives / support : 0;
+    const f1 = precision + recall ? (2 * precision * recall) / (precision + recall) : 0;
+    perClass[label] = { precision, recall, f1, support };
+  });
+
+  // Classes absent from the dataset would drag macro-F1 down for nothing
+  const present = SENTIMENT_LABELS.filter((label) => perClass[label].support > 0);
+  const calibration = buckets
+    .map((bucket, index) => ({
+      from: index / bins,
+      to: (index + 1) / bins,
+      count: bucket.count,
+      meanConfidence: bucket.count ? bucket.confidence / bucket.count : 0,
+      accuracy: bucket.count ? bucket.correct / bucket.count : 0,
+    }))
+    .filter(({ count }) => count > 0);
+
+  return {
+    examples: total,
+    accuracy: total ? SENTIMENT_LABELS.reduce((sum, label) => sum + confusion[label][label], 0) / total : 0,
+    macroF1: present.length ? present.reduce((sum, label) => sum + perClass[label].f1, 0) / present.length : 0,
+    perClass,
+    confusion,
+    ece: calibration.reduce(
+      (sum, bucket) => sum + (bucket.count / total) * Math.abs(bucket.accuracy - bucket.meanConfidence),
+      0
+    ),
+    calibration,
+    worst: misclassified.sort((a, b) => b.confidence - a.confidence).slice(0, worst),
+  };
+}
+
+// Mean negative log-likelihood of the labels under softmax(logits / temperature)
+export function negativeLogLikelihood(logits: number[][], labels: SentimentLabel[], temperature: number): number {
+  if (!logits.length) return 0;
+  const total = logits.reduce((sum, row, index) => {
+    const scaled = row.map((logit) => logit / temperature);
+    const max = Math.max(...scaled);
+    const logSum = max + Math.log(scaled.reduce((acc, logit) => acc + Math.exp(logit - max), 0));
+    // Legacy two-class outputs give neutral a logit of -Infinity; cap its loss instead of making the mean infinite
+    const logProbability = Math.max(scaled[SENTIMENT_LABELS.indexOf(labels[index])] - logSum, Math.log(1e-12));
+    return sum - logProbability;
+  }, 0);
+  return total / logits.length;
+}
+
+// Temperature minimising the NLL of labeled examples, by golden-section search over log(T) in [0.05, 20]
+export function fitTemperature(logits: number[][], labels: SentimentLabel[]): number {
+  const loss = (logT: number) => negativeLogLikelihood(logits, labels, Math.exp(logT));
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let low = Math.log(0.05);
+  let high = Math.log(20);
+  let a = high - ratio * (high - low);
+  let b = low + ratio * (high - low);
+  let lossA = loss(a);
+  let lossB = loss(b);
+
+  while (high - low > 1e-4) {
+    if (lossA < lossB) {
+      high = b;
+      b = a;
+      lossB = lossA;
+      a = high - ratio * (high - low);
+      lossA = loss(a);
+    } else {
+      low = a;
+      a = b;
+      lossA = lossB;
+      b = low + ratio * (high - low);
+      lossB = loss(b);
+    }
+  }
+  return Math.exp((low + high) / 2);
+}
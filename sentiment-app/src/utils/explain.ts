@@ -0,0 +1,78 @@
+import { LoadedModel, withActiveModel } from "./modelRegistry";
+import { analyzeLexicon } from "./lexicon";
+import { glossWord, normalizeForSentiment } from "./language";
+import { predict } from "./sentiment";
+import { MAX_BATCH_SIZE } from "./batchQueue";
+import { SentimentExplanation, SentimentLanguage, SentimentProbabilities, SentimentResult, TokenAttribution } from "../types";
+
+// Occlusion costs one extra row per word in the forward pass, so long texts only explain their first words
+const MAX_OCCLUDED_WORDS = parseInt(process.env.EXPLAIN_MAX_WORDS || "48", 10);
+
+// Same tokens as the lexicon, plus Indic vowel signs so Hindi and Bengali words stay whole
+const WORD_PATTERN = new RegExp(
+  "[:;][-']?[)(dp/]|[\\p{L}\\p{M}\\p{N}][\\p{L}\\p{M}\\p{N}'\\-]*|\\p{Extended_Pictographic}|[☹☺]",
+  "giu"
+);
+
+const polarity = ({ positive, negative }: SentimentProbabilities) => positive - negative;
+
+function splitWords(text: string): TokenAttribution[] {
+  return [...text.matchAll(WORD_PATTERN)].map((match) => ({
+    token: match[0],
+    start: match.index!,
+    end: match.index! + match[0].length,
+    weight: 0,
+  }));
+}
+
+// Drop each word in turn and score the variants next to the full text, one batch of at most MAX_BATCH_SIZE at a time
+async function explainWithOcclusion(
+  text: string,
+  language: SentimentLanguage,
+  loaded: LoadedModel
+): Promise<SentimentExplanation> {
+  const words = splitWords(text);
+  const occluded = words.slice(0, MAX_OCCLUDED_WORDS);
+  const variants = occluded.map(({ start, end }) => `${text.slice(0, start)}${text.slice(end)}`.replace(/\s+/g, " "));
+  // Variants keep the language of the full text, so dropping a marker word does not switch off the glossing
+  const inputs = [text, ...variants].map((variant) => normalizeForSentiment(variant, language));
+  const scored: SentimentResult[] = [];
+  for (let start = 0; start < inputs.length; start += MAX_BATCH_SIZE) {
+    scored.push(...(await predict(loaded, inputs.slice(start, start + MAX_BATCH_SIZE))));
+  }
+  const [full, ...results] = scored;
+
+  const baseline = polarity(full.probabilities);
+  results.forEach((result, index) => (occluded[index].weight = baseline - polarity(result.probabilities)));
+  return { method: "occlusion", modelVersion: loaded.version, tokens: words };
+}
+
+// Lexicon contributions come from the glossed text; they are matched back to the original words in order
+function explainWithLexicon(text: string, language: SentimentLanguage): SentimentExplanation {
+  const { contributions } = analyzeLexicon(normalizeForSentiment(text, language));
+  const words = splitWords(text);
+
+  let next = 0;
+  words.forEach((word) => {
+    const contribution = contributions[next];
+    if (contribution && glossWord(word.token, language).toLowerCase() === contribution.token.toLowerCase()) {
+      word.weight = contribution.weight;
+      next += 1;
+    }
+  });
+  return { method: "lexicon", modelVersion: null, tokens: words };
+}
+
+// Token-level attributions for a scored text, from the analyzer that produced the result.
+// Model results fall back to lexicon contributions when the model is gone or fails meanwhile.
+export async function explainSentiment(text: string, result: SentimentResult): Promise<SentimentExplanation> {
+  if (result.analyzer === "model") {
+    try {
+      const explanation = await withActiveModel((loaded) => explainWithOcclusion(text, result.language, loaded));
+      if (explanation) return explanation;
+    } catch (error) {
+      console.error("Occlusion explanation failed, falling back to lexicon contributions:", error);
+    }
+  }
+  return explainWithLexicon(text, result.language);
+}
@@ -0,0 +1,121 @@
+import { SentimentLanguage } from "../types";
+
+// The sentiment model and lexicon are English-only; other supported languages are glossed into English first
+export const SENTIMENT_LANGUAGES: SentimentLanguage[] = ["en", "hi", "bn", "hinglish", "unknown"];
+
+// Share of letters in a script above which a text counts as written in it
+const SCRIPT_SHARE = 0.3;
+// Romanized Hindi function words; two of them, or one in a short text, mark a text as Hinglish
+const HINGLISH_MARKERS = new Set([
+  "hai", "hain", "tha", "thi", "nahi", "nahin", "nhi", "bahut", "bohot", "bahot", "kya", "mein", "mai", "ka", "ki",
+  "ke", "bhi", "yaar", "yar", "aur", "toh", "kuch", "koi", "sab", "ekdum", "bilkul", "raha", "rahi", "rahe", "gaya",
+  "gayi", "hua", "hui", "se", "ko", "wala", "wali", "kyun", "kyu", "abhi", "bas", "kaafi", "kafi", "accha", "acha",
+]);
+const HINGLISH_MIN_SHARE = 0.2;
+
+// Romanized Hindi to English, enough for the sentiment words and the event vocabulary of the lexicon
+const HINGLISH_GLOSSARY: { [word: string]: string } = {
+  accha: "good", acha: "good", achha: "good", achchha: "good", badhiya: "great", badiya: "great", mast: "great",
+  zabardast: "amazing", jabardast: "amazing", shandaar: "excellent", shandar: "excellent", kamaal: "amazing",
+  kamal: "amazing", sundar: "beautiful", pyaara: "lovely", pyara: "lovely", maza: "fun", mazaa: "fun", majaa: "fun",
+  khush: "happy", pasand: "like", shukriya: "thanks", dhanyavaad: "thanks", dhanyavad: "thanks", sahi: "good",
+  bura: "bad", buri: "bad", bekar: "useless", bekaar: "useless", bakwas: "terrible", bakwaas: "terrible",
+  ghatiya: "awful", kharab: "bad", kharaab: "bad", ganda: "dirty", gandi: "dirty", bore: "boring", pareshan: "annoyed",
+  pareshaan: "annoyed", gussa: "angry", dukhi: "sad", dheema: "slow", dheere: "slow", dheemi: "slow",
+  lamba: "long", lambi: "long", thanda: "cold", thandi: "cold", garam: "hot", garmi: "hot", bheed: "crowded",
+  band: "down", khana: "food", paani: "water", pani: "water", chai: "tea", kursi: "chair", kursiyan: "chairs",
+  kaam: "working", chal: "working", awaaz: "sound", awaz: "audio", aawaz: "audio", intezaar: "waiting", intezar: "waiting",
+  bahut: "very", bohot: "very", bahot: "very", bohat: "very", ekdum: "totally", bilkul: "totally", kaafi: "quite",
+  kafi: "quite", zyada: "too", jyada: "too", thoda: "slightly", thodi: "slightly",
+  nahi: "not", nahin: "not", nhi: "not", mat: "not", kabhi: "ever",
+  lekin: "but", magar: "but", aur: "and",
+  mein: "in", se: "from", ko: "to", ka: "of", ki: "of", ke: "of",
+};
+
+// Devanagari and Bengali words glossed directly, as the script is unambiguous about the language
+const HINDI_GLOSSARY: { [word: string]: string } = {
+  "अच्छा": "good", "अच्छी": "good", "अच्छे": "good", "बढ़िया": "great", "बेहतरीन": "excellent", "शानदार": "excellent",
+  "जबरदस्त": "amazing", "मस्त": "great", "सुंदर": "beautiful", "मज़ा": "fun", "मजा": "fun", "खुश": "happy",
+  "पसंद": "like", "धन्यवाद": "thanks", "शुक्रिया": "thanks", "बुरा": "bad", "बुरी": "bad", "बेकार": "useless",
+  "बकवास": "terrible", "घटिया": "awful", "खराब": "bad", "ख़राब": "bad", "गंदा": "dirty", "गंदी": "dirty",
+  "परेशान": "annoyed", "गुस्सा": "angry", "दुखी": "sad", "धीमा": "slow", "धीमी": "slow", "लंबी": "long", "लंबा": "long",
+  "ठंडा": "cold", "ठंडी": "cold", "गर्मी": "hot", "गरम": "hot", "भीड़": "crowded", "बंद": "down", "खाना": "food",
+  "पानी": "water", "चाय": "tea", "कुर्सी": "chair", "आवाज़": "audio", "आवाज": "audio", "इंतज़ार": "waiting",
+  "इंतजार": "waiting", "लाइन": "queue", "वाईफाई": "wifi", "माइक": "mic", "बहुत": "very", "बिल्कुल": "totally",
+  "ज़्यादा": "too", "ज्यादा": "too", "थोड़ा": "slightly", "नहीं": "not", "मत": "not", "लेकिन": "but", "मगर": "but",
+  "और": "and",
+};
+
+const BENGALI_GLOSSARY: { [word: string]: string } = {
+  "ভালো": "good", "ভাল": "good", "দারুণ": "great", "দারুন": "great", "চমৎকার": "excellent", "অসাধারণ": "amazing",
+  "সুন্দর": "beautiful", "খুশি": "happy", "পছন্দ": "like", "ধন্যবাদ": "thanks", "খারাপ": "bad", "বাজে": "terrible",
+  "জঘন্য": "awful", "বিরক্ত": "annoyed", "রাগ": "angry", "দুঃখ": "sad", "ধীর": "slow", "লম্বা": "long",
+  "ঠান্ডা": "cold", "গরম": "hot", "ভিড়": "crowded", "বন্ধ": "down", "খাবার": "food", "জল": "water", "পানি": "water",
+  "চা": "tea", "চেয়ার": "chair", "আওয়াজ": "audio", "শব্দ": "sound", "অপেক্ষা": "waiting", "লাইন": "queue",
+  "ওয়াইফাই": "wifi", "মাইক": "mic", "খুব": "very", "একদম": "totally", "বেশি": "too", "একটু": "slightly",
+  "না": "not", "নয়": "not", "নেই": "not", "কিন্তু": "but", "আর": "and", "এবং": "and",
+};
+
+const WORD_PATTERN = /[\p{L}\p{M}][\p{L}\p{M}\p{N}']*/gu;
+const DEVANAGARI = /\p{Script=Devanagari}/gu;
+const BENGALI = /\p{Script=Bengali}/gu;
+// Indic vowel signs are marks rather than letters, so both count
+const LETTER = /[\p{L}\p{M}]/gu;
+
+export interface DetectedLanguage {
+  language: SentimentLanguage;
+  // Share of the evidence behind the decision, 0..1
+  confidence: number;
+}
+
+const count = (text: string, pattern: RegExp) => (text.match(pattern) || []).length;
+
+export function detectLanguage(text: string): DetectedLanguage {
+  const letters = count(text, LETTER);
+  if (!letters) return { language: "unknown", confidence: 0 };
+
+  const devanagari = count(text, DEVANAGARI) / letters;
+  const bengali = count(text, BENGALI) / letters;
+  if (devanagari >= SCRIPT_SHARE && devanagari >= bengali) return { language: "hi", confidence: devanagari };
+  if (bengali >= SCRIPT_SHARE) return { language: "bn", confidence: bengali };
+
+  const words = text.toLowerCase().match(WORD_PATTERN) || [];
+  const markers = words.filter((word) => HINGLISH_MARKERS.has(word)).length;
+  const share = words.length ? markers / words.length : 0;
+  if (markers >= 2 || (markers === 1 && share >= HINGLISH_MIN_SHARE)) {
+    return { language: "hinglish", confidence: Math.min(1, share / HINGLISH_MIN_SHARE / 2 + 0.5) };
+  }
+  return { language: "en", confidence: 1 - share };
+}
+
+function gloss(text: string, glossary: { [word: string]: string }, lowercase: boolean): string {
+  const glossed = text
+    .normalize("NFC")
+    // Zero-width joiners only change how Indic conjuncts render
+    .replace(/[\u200C\u200D]/g, "")
+    .replace(WORD_PATTERN, (word) => glossary[lowercase ? word.toLowerCase() : word] ?? word);
+  // Hindi and Bengali put the negation after what it negates: "accha nahi" becomes "not good"
+  return glossed.replace(/([\p{L}\p{M}']+)\s+not\b/gu, (match, word: string) =>
+    word.toLowerCase() === "not" ? match : `not ${word}`
+  );
+}
+
+const GLOSSARIES: { [language in SentimentLanguage]?: { glossary: { [word: string]: string }; lowercase: boolean } } = {
+  hinglish: { glossary: HINGLISH_GLOSSARY, lowercase: true },
+  hi: { glossary: HINDI_GLOSSARY, lowercase: false },
+  bn: { glossary: BENGALI_GLOSSARY, lowercase: false },
+};
+
+// Bring a text into the form the English-only model and lexicon understand
+export function normalizeForSentiment(text: string, language: SentimentLanguage): string {
+  const entry = GLOSSARIES[language];
+  return entry ? gloss(text, entry.glossary, entry.lowercase) : text;
+}
+
+// English gloss of a single word, or the word itself when it has none (used to map explanations back)
+export function glossWord(word: string, language: SentimentLanguage): string {
+  const entry = GLOSSARIES[language];
+  if (!entry) return word;
+  const key = word.normalize("NFC").replace(/[\u200C\u200D]/g, "");
+  return entry.glossary[entry.lowercase ? key.toLowerCase() : key] ?? word;
+}
@@ -0,0 +1,155 @@
+import { SentimentProbabilities } from "../types";
+
+// Valences on a -4..4 scale, in the spirit of VADER
+const WORDS: { [word: string]: number } = {
+  // General
+  good: 1.9, great: 3.1, excellent: 3.2, amazing: 2.8, awesome: 3.1, fantastic: 2.6, wonderful: 2.7, brilliant: 2.8,
+  love: 3.2, loved: 2.9, loving: 2.9, like: 1.5, liked: 1.8, enjoy: 2.2, enjoyed: 2.3, nice: 1.8, happy: 2.7,
+  glad: 2.0, best: 3.2, perfect: 2.7, fun: 2.3, cool: 1.3, thanks: 1.9, thank: 1.5, impressive: 2.3, superb: 3.1,
+  worth: 0.9, recommend: 1.5, beautiful: 2.9, pleasant: 2.3, satisfied: 1.8, working: 1.0, works: 1.0, worked: 1.0,
+  bad: -2.5, terrible: -2.1, awful: -2.0, horrible: -2.5, worst: -3.1, hate: -2.7, hated: -3.2, poor: -2.1,
+  disappointing: -2.2, disappointed: -1.9, annoying: -1.7, annoyed: -1.6, angry: -2.3, sad: -2.1, useless: -1.8,
+  waste: -1.8, wasted: -2.2, broken: -1.9, problem: -1.7, problems: -1.7, issue: -1.2, issues: -1.2, fail: -2.5,
+  failed: -2.3, wrong: -2.1, ridiculous: -1.5, unacceptable: -2.7, frustrating: -2.4, frustrated: -2.4, meh: -0.8,
+  // Event domain
+  queue: -0.8, queues: -0.8, waiting: -1.0, wait: -0.6, crowded: -1.8, overcrowded: -2.5, packed: -0.9,
+  cramped: -1.8, lag: -1.8, laggy: -2.0, lagging: -1.8, buffering: -1.8, echo: -1.2, muffled: -1.8,
+  inaudible: -2.2, glitch: -1.8, glitchy: -2.0, crash: -2.2, crashed: -2.2, crashing: -2.2, outage: -2.2,
+  disconnected: -1.8, stuffy: -1.5, freezing: -1.5, sweltering: -2.0, dirty: -2.0, smelly: -2.0, overpriced: -2.0,
+  expensive: -1.2, late: -1.2, delayed: -1.5, delay: -1.4, cancelled: -2.0, canceled: -2.0, disorganized: -2.2,
+  unorganized: -2.2, chaos: -2.2, chaotic: -2.2, rude: -2.5, unhelpful: -2.0, confusing: -1.6, boring: -2.0,
+  seamless: 2.0, smooth: 1.8, organized: 1.6, engaging: 2.0, insightful: 2.2, informative: 1.8, inspiring: 2.4,
+  friendly: 2.0, helpful: 2.0, fast: 1.2, quick: 1.0, clean: 1.5, tasty: 2.0, delicious: 2.5, comfortable: 1.8,
+  spacious: 1.5, clear: 1.2, crisp: 1.2, punctual: 1.5,
+};
+
+const EMOJI: { [emoji: string]: number } = {
+  "😀": 2.5, "😃": 2.5, "😄": 2.6, "😁": 2.4, "😊": 2.4, "🙂": 1.5, "😍": 3.0, "🥰": 3.0, "🤩": 3.0, "😎": 1.8,
+  "👍": 2.0, "👏": 2.2, "🙌": 2.3, "🎉": 2.6, "🔥": 2.0, "❤": 3.0, "💯": 2.5, "✅": 1.2, "😂": 1.6, "🤣": 1.6,
+  "😐": -0.3, "😕": -1.3, "🙁": -1.7, "☹": -1.9, "😞": -2.0, "😢": -2.2, "😭": -2.4, "😠": -2.7, "😡": -3.0,
+  "🤬": -3.2, "👎": -2.2, "💩": -2.5, "😤": -2.0, "😩": -2.1, "😫": -2.1, "🥱": -1.5, "😴": -1.4, "🤮": -3.0,
+  ":)": 1.5, ":-)": 1.5, ":d": 2.2, ":(": -1.7, ":-(": -1.7, ":/": -1.0,
+};
+
+// Things attendees complain about; a problem word next to one of them is a complaint even if neutral elsewhere
+const TOPICS = new Set([
+  "wifi", "wi-fi", "internet", "network", "signal", "mic", "microphone", "audio", "sound", "speaker", "speakers",
+  "projector", "screen", "slides", "app", "ac", "aircon", "conditioning", "temperature", "heating", "food", "coffee",
+  "water", "seating", "seats", "chairs", "queue", "line", "registration", "parking", "toilet", "toilets", "restroom",
+  "restrooms", "stream",
+]);
+const PROBLEMS: { [word: string]: number } = {
+  down: -2.0, dead: -2.0, slow: -1.6, off: -1.2, out: -1.2, gone: -1.4, spotty: -1.8, patchy: -1.6, weak: -1.4,
+  loud: -1.2, quiet: -1.0, long: -1.2, cold: -1.0, hot: -1.0, full: -0.8, empty: -0.8,
+};
+const TOPIC_WINDOW = 3;
+
+const NEGATIONS = new Set(["not", "no", "never", "none", "nothing", "nobody", "cannot", "without", "neither", "nor"]);
+const NEGATION_SCALE = -0.74;
+const NEGATION_WINDOW = 3;
+
+// Added to (or, for dampeners, subtracted from) the magnitude of the next sentiment word
+const BOOSTERS: { [word: string]: number } = {
+  very: 0.293, really: 0.293, extremely: 0.4, so: 0.2, super: 0.3, totally: 0.3, absolutely: 0.4, incredibly: 0.4,
+  too: 0.2, completely: 0.3, highly: 0.3, utterly: 0.4,
+  slightly: -0.293, somewhat: -0.293, barely: -0.4, hardly: -0.4, kinda: -0.2, bit: -0.2,
+};
+
+// Words after "but" carry the message; words before it are discounted
+const CONTRAST_BEFORE = 0.5;
+const CONTRAST_AFTER = 1.5;
+const CAPS_BOOST = 0.733;
+const EXCLAMATION_BOOST = 0.292;
+const MAX_EXCLAMATIONS = 4;
+const NORMALIZE_ALPHA = 15;
+
+export interface LexiconContribution {
+  token: string;
+  weight: number;
+}
+
+export interface LexiconAnalysis {
+  // -1..1, as VADER's compound score
+  compound: number;
+  probabilities: SentimentProbabilities;
+  contributions: LexiconContribution[];
+}
+
+const TOKEN_PATTERN = new RegExp(
+  "[:;][-']?[)(dp/]|[\\p{L}\\p{N}][\\p{L}\\p{N}'\\-]*|\\p{Extended_Pictographic}|[☹☺]",
+  "giu"
+);
+
+// Valence of an emoji on the -1..1 scale, undefined for emoji the lexicon does not know
+export function lexiconEmojiValence(emoji: string): number | undefined {
+  const valence = EMOJI[emoji] ?? EMOJI[emoji.replace(/\uFE0F/g, "")];
+  return valence === undefined ? undefined : Math.max(-1, Math.min(1, valence / 4));
+}
+
+const isNegation = (word: string) => NEGATIONS.has(word) || word.endsWith("n't");
+
+// Score a text from word, emoji and phrase valences, returning per-token contributions for explanations
+export function analyzeLexicon(text: string): LexiconAnalysis {
+  const raw = text.match(TOKEN_PATTERN) || [];
+  const tokens = raw.map((token) => token.toLowerCase());
+  const hasMixedCase = raw.some((token) => token !== token.toUpperCase());
+  const butIndex = tokens.indexOf("but");
+
+  const contributions: LexiconContribution[] = [];
+
+  tokens.forEach((token, index) => {
+    let valence = WORDS[token] ?? EMOJI[token] ?? EMOJI[raw[index]] ?? 0;
+
+    // "wifi down", "mic is dead", "long queue"
+    if (!valence && PROBLEMS[token] !== undefined) {
+      const nearTopic = tokens
+        .slice(Math.max(0, index - TOPIC_WINDOW), index + TOPIC_WINDOW + 1)
+        .some((other) => TOPICS.has(other));
+      if (nearTopic) valence = PROBLEMS[token];
+    }
+    // "no wifi", "no water"
+    if (!valence && TOPICS.has(token) && index > 0 && tokens[index - 1] === "no") {
+      valence = -1.5;
+    }
+    if (!valence) return;
+
+    const sign = Math.sign(valence);
+    for (let back = 1; back <= 2 && index - back >= 0; back++) {
+      const boost = BOOSTERS[tokens[index - back]];
+      if (boost !== undefined) valence += sign * boost * (back === 1 ? 1 : 0.95);
+    }
+    if (hasMixedCase && raw[index].length > 1 && raw[index] === raw[index].toUpperCase() && /\p{L}/u.test(raw[index])) {
+      valence += sign * CAPS_BOOST;
+    }
+    const negated = tokens.slice(Math.max(0, index - NEGATION_WINDOW), index).some(isNegation);
+    // The "no" in "no wifi" is the complaint itself, not a negation of it
+    if (negated && !(TOPICS.has(token) && tokens[index - 1] === "no")) {
+      valence *= NEGATION_SCALE;
+    }
+    if (butIndex !== -1) {
+      valence *= index < butIndex ? CONTRAST_BEFORE : index > butIndex ? CONTRAST_AFTER : 1;
+    }
+
+    contributions.push({ token: raw[index], weight: valence });
+  });
+
+  let sum = contributions.reduce((total, { weight }) => total + weight, 0);
+  if (sum) {
+    const exclamations = Math.min((text.match(/!/g) || []).length, MAX_EXCLAMATIONS);
+    sum += Math.sign(sum) * exclamations * EXCLAMATION_BOOST;
+  }
+  const compound = sum / Math.sqrt(sum * sum + NORMALIZE_ALPHA);
+
+  return { compound, probabilities: toLexiconProbabilities(compound, contributions), contributions };
+}
+
+// Neutral takes what the compound score leaves; the rest is split by positive vs negative evidence
+function toLexiconProbabilities(compound: number, contributions: LexiconContribution[]): SentimentProbabilities {
+  const positiveMass = contributions.filter(({ weight }) => weight > 0).reduce((total, { weight }) => total + weight, 0);
+  const negativeMass = contributions.filter(({ weight }) => weight < 0).reduce((total, { weight }) => total - weight, 0);
+  const neutral = 0.05 + 0.9 * (1 - Math.abs(compound)) ** 2;
+  const polar = 1 - neutral;
+  const positiveShare = (positiveMass + 0.25) / (positiveMass + negativeMass + 0.5);
+
+  return { negative: polar * (1 - positiveShare), neutral, positive: polar * positiveShare };
+}
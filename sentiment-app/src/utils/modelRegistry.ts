@@ -0,0 +1,280 @@
+import * as tf from "@tensorflow/tfjs-node";
+import { exec } from "child_process";
+import { promises as fs } from "fs";
+import path from "path";
+import { loadTokenizer, Tokenizer, TOKENIZER_DIR } from "./tokenizer";
+
+export const MODEL_DIR = path.join(__dirname, "../../sentiment_model");
+// One sub-directory per version holding tf_model.h5 and/or tfjs/model.json, and optionally tokenizer files
+export const REGISTRY_DIR = process.env.MODEL_REGISTRY_DIR || path.join(MODEL_DIR, "versions");
+const POINTER_PATH = path.join(REGISTRY_DIR, "active.json");
+// A bare sentiment_model/tf_model.h5 (the pre-registry layout) is exposed under this name
+export const DEFAULT_VERSION = "default";
+const USE_S3 = process.env.MODEL_REGISTRY_BACKEND === "s3";
+const MAX_HISTORY = 10;
+
+export interface LoadedModel {
+  version: string;
+  model: tf.LayersModel;
+  tokenizer: Tokenizer;
+  // Per-version calibration from meta.json, falling back to SENTIMENT_TEMPERATURE
+  temperature?: number;
+  loadedAt: number;
+  inFlight: number;
+  retired: boolean;
+}
+
+export interface ModelVersionInfo {
+  version: string;
+  source: "local" | "s3";
+  description?: string;
+  createdAt?: string;
+}
+
+export interface VersionMeta {
+  description?: string;
+  createdAt?: string;
+  temperature?: number;
+}
+
+let active: LoadedModel | null = null;
+let loading: string | null = null;
+let lastError: string | null = null;
+// Previously active versions, most recent last, for rollback
+let history: string[] = [];
+let defaultTokenizer: Tokenizer | null = null;
+
+function httpError(message: string, statusCode: number): Error {
+  const err = new Error(message) as any;
+  err.statusCode = statusCode;
+  return err;
+}
+
+const exists = (file: string) =>
+  fs.access(file).then(
+    () => true,
+    () => false
+  );
+
+async function convertH5ToTFJS(h5Path: string, outDir: string): Promise<void> {
+  console.log(`Converting ${h5Path} to TensorFlow.js format...`);
+  await fs.rm(outDir, { recursive: true, force: true });
+  await fs.mkdir(outDir, { recursive: true });
+  await new Promise((resolve, reject) => {
+    exec(`tensorflowjs_converter --input_format=keras ${h5Path} ${outDir}`, (error, stdout, stderr) => {
+      if (error) {
+        console.error("Conversion error:", stderr);
+        reject(error);
+      } else {
+        console.log("Conversion stdout:", stdout);
+        resolve(void 0);
+      }
+    });
+  });
+}
+
+const versionDir = (version: string) => (version === DEFAULT_VERSION ? MODEL_DIR : path.join(REGISTRY_DIR, version));
+
+async function hasModelFiles(dir: string): Promise<boolean> {
+  return (await exists(path.join(dir, "tfjs", "model.json"))) || (await exists(path.join(dir, "tf_model.h5")));
+}
+
+async function readMeta(dir: string): Promise<VersionMeta> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(dir, "meta.json"), "utf8"));
+  } catch {
+    return {};
+  }
+}
+
+// Merge fields into a version's meta.json, e.g. a fitted temperature; it applies the next time the version is loaded
+export async function updateVersionMeta(version: string, fields: VersionMeta): Promise<string> {
+  const dir = versionDir(version);
+  if (!(await hasModelFiles(dir))) throw httpError(`Model version ${version} not found`, 404);
+
+  const file = path.join(dir, "meta.json");
+  await fs.writeFile(file, JSON.stringify({ ...(await readMeta(dir)), ...fields }, null, 2));
+  return file;
+}
+
+async function readPointer(): Promise<{ active?: string | null; history?: string[] }> {
+  try {
+    return JSON.parse(await fs.readFile(POINTER_PATH, "utf8"));
+  } catch {
+    return {};
+  }
+}
+
+async function savePointer(): Promise<void> {
+  await fs.mkdir(REGISTRY_DIR, { recursive: true });
+  await fs.writeFile(POINTER_PATH, JSON.stringify({ active: active?.version || null, history }, null, 2));
+}
+
+export async function listModelVersions(): Promise<ModelVersionInfo[]> {
+  const versions = new Map<string, ModelVersionInfo>();
+
+  if (await exists(path.join(MODEL_DIR, "tf_model.h5"))) {
+    versions.set(DEFAULT_VERSION, { version: DEFAULT_VERSION, source: "local" });
+  }
+
+  const entries = await fs.readdir(REGISTRY_DIR, { withFileTypes: true }).catch(() => []);
+  for (const entry of entries) {
+    const dir = path.join(REGISTRY_DIR, entry.name);
+    if (!entry.isDirectory() || !(await hasModelFiles(dir))) continue;
+    const { description, createdAt } = await readMeta(dir);
+    versions.set(entry.name, { version: entry.name, source: "local", description, createdAt });
+  }
+
+  if (USE_S3) {
+    const { listModelVersionsFromS3 } = await import("../config/aws");
+    (await listModelVersionsFromS3()).forEach((version) => {
+      if (!versions.has(version)) versions.set(version, { version, source: "s3" });
+    });
+  }
+
+  return [...versions.values()].sort((a, b) => a.version.localeCompare(b.version));
+}
+
+// Load a version into memory without touching the active model
+async function loadVersion(version: string): Promise<LoadedModel> {
+  const dir = versionDir(version);
+
+  if (!(await hasModelFiles(dir))) {
+    if (!USE_S3 || version === DEFAULT_VERSION) throw httpError(`Model version ${version} not found`, 404);
+    const { downloadModelVersionFromS3 } = await import("../config/aws");
+    await downloadModelVersionFromS3(version, dir);
+  }
+
+  const modelJson = path.join(dir, "tfjs", "model.json");
+  if (!(await exists(modelJson))) {
+    await convertH5ToTFJS(path.join(dir, "tf_model.h5"), path.join(dir, "tfjs"));
+  }
+
+  // Versions may ship their own tokenizer; otherwise the pretrained_sentiment one is shared
+  let tokenizer: Tokenizer;
+  if (await exists(path.join(dir, "vocab.json"))) {
+    tokenizer = await loadTokenizer(dir);
+  } else {
+    defaultTokenizer = defaultTokenizer || (await loadTokenizer(TOKENIZER_DIR));
+    tokenizer = defaultTokenizer;
+  }
+
+  const model = await tf.loadLayersModel(`file://${modelJson}`);
+  const { temperature } = await readMeta(dir);
+
+  // Warm up so the first real request after the swap does not pay for graph setup
+  const { inputIds, attentionMask } = tokenizer.encodeBatch(["warm up"]);
+  const inputs = [tf.tensor2d(inputIds, undefined, "int32"), tf.tensor2d(attentionMask, undefined, "int32")];
+  const prediction = model.predict(model.inputs.length > 1 ? inputs : inputs[0]) as tf.Tensor;
+  await prediction.data();
+  tf.dispose([...inputs, prediction]);
+
+  return { version, model, tokenizer, temperature, loadedAt: Date.now(), inFlight: 0, retired: false };
+}
+
+// Free a replaced model once the predictions still using it have finished
+function retire(loaded: LoadedModel | null): void {
+  if (!loaded) return;
+  loaded.retired = true;
+  if (loaded.inFlight === 0) loaded.model.dispose();
+}
+
+async function swapTo(version: string, rollback: boolean): Promise<void> {
+  try {
+    const loaded = await loadVersion(version);
+    const previous = active;
+    active = loaded;
+    if (previous && !rollback && previous.version !== version) {
+      history = [...history, previous.version].slice(-MAX_HISTORY);
+    }
+    lastError = null;
+    await savePointer();
+    retire(previous);
+    console.log(`Model version ${version} is now active`);
+  } catch (error: any) {
+    lastError = `${version}: ${error?.message || error}`;
+    console.error(`Failed to activate model version ${version}:`, error);
+    throw error;
+  } finally {
+    loading = null;
+  }
+}
+
+// Start loading a version; the current model keeps serving until the new one is ready
+export function activateModelVersion(version: string, rollback: boolean = false): Promise<void> {
+  if (loading) return Promise.reject(httpError(`Model version ${loading} is still loading`, 409));
+  loading = version;
+  return swapTo(version, rollback);
+}
+
+export async function rollbackModel(): Promise<string> {
+  const previous = history[history.length - 1];
+  if (!previous) throw httpError("No previous model version to roll back to", 409);
+
+  await activateModelVersion(previous, true);
+  history = history.slice(0, -1);
+  await savePointer();
+  return previous;
+}
+
+// Run a prediction against the active model, keeping it alive even if it is swapped out meanwhile
+export async function withActiveModel<T>(fn: (loaded: LoadedModel) => Promise<T>): Promise<T | null> {
+  const loaded = active;
+  if (!loaded) return null;
+
+  loaded.inFlight += 1;
+  try {
+    return await fn(loaded);
+  } finally {
+    loaded.inFlight -= 1;
+    if (loaded.retired && loaded.inFlight === 0) loaded.model.dispose();
+  }
+}
+
+// Load a version on the side and run fn against it, e.g. to evaluate it; the active model is left alone
+export async function withModelVersion<T>(version: string, fn: (loaded: LoadedModel) => Promise<T>): Promise<T> {
+  const loaded = await loadVersion(version);
+  try {
+    return await fn(loaded);
+  } finally {
+    loaded.model.dispose();
+  }
+}
+
+export function getRegistryStatus() {
+  return {
+    active: active ? { version: active.version, loadedAt: new Date(active.loadedAt).toISOString() } : null,
+    loading,
+    lastError,
+    history,
+  };
+}
+
+// The version the service runs: the last active one, or the newest available one on first start
+export async function resolveActiveVersion(): Promise<string | undefined> {
+  const pointer = await readPointer();
+  if (pointer.active) return pointer.active;
+
+  const versions = await listModelVersions().catch((error) => {
+    console.error("Failed to list model versions:", error);
+    return [] as ModelVersionInfo[];
+  });
+  return versions[versions.length - 1]?.version;
+}
+
+// Restore the last active version with its rollback history
+export async function initModelRegistry(): Promise<void> {
+  history = (await readPointer()).history || [];
+
+  const target = await resolveActiveVersion();
+  if (!target) {
+    console.warn("No model versions found in", REGISTRY_DIR, ". Proceeding without model.");
+    return;
+  }
+
+  try {
+    await activateModelVersion(target);
+  } catch {
+    console.warn(`Could not load model version ${target}. Proceeding without model.`);
+  }
+}
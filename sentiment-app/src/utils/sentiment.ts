@@ -1,99 +1,302 @@
 import * as tf from "@tensorflow/tfjs-node";
-import { exec } from "child_process";
-import { promises as fs } from "fs";
-import path from "path";
-
-let model: tf.LayersModel | null = null;
-export const sentimentData: { timestamp: number; score: number }[] = [];
-
-const MODEL_DIR = path.join(__dirname, "../../sentiment_model");
-const TFJS_MODEL_DIR = path.join(MODEL_DIR, "tfjs");
-const H5_PATH = path.join(MODEL_DIR, "tf_model.h5");
-
-async function convertH5ToTFJS(): Promise<void> {
-  console.log("Converting .h5 to TensorFlow.js format...");
-  await new Promise((resolve, reject) => {
-    exec(
-      `tensorflowjs_converter --input_format=keras ${H5_PATH} ${TFJS_MODEL_DIR}`,
-      (error, stdout, stderr) => {
-        if (error) {
-          console.error("Conversion error:", stderr);
-          reject(error);
-        } else {
-          console.log("Conversion stdout:", stdout);
-          console.log("Conversion stderr:", stderr);
-          const modelJsonPath = path.join(TFJS_MODEL_DIR, "model.json");
-          fs.stat(modelJsonPath)
-            .then(() => console.log(`model.json exists at ${modelJsonPath}`))
-            .catch(() => console.error(`model.json not found at ${modelJsonPath}`));
-          resolve(void 0);
-        }
-      }
-    );
-  });
-}
+import { Tokenizer } from "./tokenizer";
+import { initModelRegistry, LoadedModel, withActiveModel } from "./modelRegistry";
+import { analyzeLexicon } from "./lexicon";
+import { ASPECT_TAXONOMY, extractAspects } from "./aspects";
+import { detectLanguage, normalizeForSentiment } from "./language";
+import {
+  AggregatedAspect,
+  AggregatedSentiment,
+  SentimentAnalyzer,
+  SentimentData,
+  SentimentLabel,
+  SentimentLanguage,
+  SentimentProbabilities,
+  SentimentQuery,
+  SentimentResult,
+} from "../types";
+
+// Scored items of the last hour, one time-ordered series per event
+export const sentimentData = new Map<string, SentimentData[]>();
+export const NO_ZONE = "unassigned";
+export const LIVE_WINDOW_MS = 60 * 60 * 1000;
+
+// Output order of cardiffnlp/twitter-roberta-base-sentiment (LABEL_0..LABEL_2)
+export const SENTIMENT_LABELS: SentimentLabel[] = ["negative", "neutral", "positive"];
+
+// Used for versions without a temperature in their meta.json (see npm run evaluate -- --fit-temperature); > 1 softens
+// over-confident logits
+export const DEFAULT_TEMPERATURE = parseFloat(process.env.SENTIMENT_TEMPERATURE || "1");
 
 export async function loadModel(): Promise<void> {
   try {
-    console.log("Checking for local model...");
-    try {
-      await fs.access(H5_PATH);
-      console.log(`Found tf_model.h5 at ${H5_PATH}`);
-
-      await fs.rm(TFJS_MODEL_DIR, { recursive: true, force: true });
-      await fs.mkdir(TFJS_MODEL_DIR, { recursive: true });
-
-      console.log("Converting H5 to TFJS");
-      await convertH5ToTFJS();
-      console.log("Loading model");
-      model = await tf.loadLayersModel(`file://${path.join(TFJS_MODEL_DIR, "model.json")}`);
-      console.log("Model loaded successfully");
-    } catch (error) {
-      console.warn("No local model found at", H5_PATH, ". Proceeding without model.");
-      model = null; // Allow server to start without model
-    }
+    await initModelRegistry();
   } catch (error) {
     console.error("Failed to load model:", error);
     process.exit(1);
   }
 }
 
-export function preprocessText(text: string): tf.Tensor2D {
-  const words = text.toLowerCase().split(" ");
-  const sequence = words.map((word) => word.charCodeAt(0) % 100);
-  return tf.tensor2d([sequence], [1, sequence.length]);
+// Encode texts the way the Python RobertaTokenizer does: <s> ... </s>, truncated and right-padded
+export function preprocessText(
+  texts: string | string[],
+  tokenizer: Tokenizer
+): { inputIds: tf.Tensor2D; attentionMask: tf.Tensor2D } {
+  const { inputIds, attentionMask } = tokenizer.encodeBatch(Array.isArray(texts) ? texts : [texts]);
+  return {
+    inputIds: tf.tensor2d(inputIds, undefined, "int32"),
+    attentionMask: tf.tensor2d(attentionMask, undefined, "int32"),
+  };
+}
+
+export function recordSentiment(item: SentimentData): void {
+  const series = sentimentData.get(item.eventId);
+  if (series) series.push(item);
+  else sentimentData.set(item.eventId, [item]);
 }
 
 export function cleanOldData(): void {
-  const oneHourAgo = Date.now() - 60 * 60 * 1000;
-  while (sentimentData.length > 0 && sentimentData[0].timestamp < oneHourAgo) {
-    sentimentData.shift();
-  }
+  const oneHourAgo = Date.now() - LIVE_WINDOW_MS;
+  sentimentData.forEach((series, eventId) => {
+    while (series.length > 0 && series[0].timestamp < oneHourAgo) {
+      series.shift();
+    }
+    if (!series.length) sentimentData.delete(eventId);
+  });
 }
 
-export function aggregateSentiment(): { timestamp: number; average: number }[] {
+// Minute buckets for one event, optionally filtered to a zone/channel or split by one of them
+export function aggregateSentiment(query: SentimentQuery): AggregatedSentiment[] {
   cleanOldData();
-  const minuteBuckets: { [key: number]: { sum: number; count: number } } = {};
-  sentimentData.forEach(({ timestamp, score }) => {
-    const minute = Math.floor(timestamp / (60 * 1000)) * 60 * 1000;
-    if (!minuteBuckets[minute]) minuteBuckets[minute] = { sum: 0, count: 0 };
-    minuteBuckets[minute].sum += score;
-    minuteBuckets[minute].count += 1;
+  const { eventId, zone, channel, groupBy, since = 0 } = query;
+  const minuteBuckets = new Map<
+    string,
+    {
+      timestamp: number;
+      group?: string;
+      sum: number;
+      count: number;
+      probabilities: SentimentProbabilities;
+      labels: AggregatedSentiment["labels"];
+      analyzers: AggregatedSentiment["analyzers"];
+      languages: AggregatedSentiment["languages"];
+    }
+  >();
+
+  (sentimentData.get(eventId) || []).forEach((item) => {
+    if (item.timestamp < since) return;
+    if (zone && item.zone !== zone) return;
+    if (channel && item.channel !== channel) return;
+
+    const minute = Math.floor(item.timestamp / (60 * 1000)) * 60 * 1000;
+    const group = groupBy === "zone" ? item.zone || NO_ZONE : groupBy === "channel" ? item.channel : undefined;
+    const key = `${minute}:${group ?? ""}`;
+    if (!minuteBuckets.has(key)) {
+      minuteBuckets.set(key, {
+        timestamp: minute,
+        group,
+        sum: 0,
+        count: 0,
+        probabilities: { negative: 0, neutral: 0, positive: 0 },
+        labels: { negative: 0, neutral: 0, positive: 0 },
+        analyzers: { model: 0, lexicon: 0, emoji: 0 },
+        languages: { en: 0, hi: 0, bn: 0, hinglish: 0, unknown: 0 },
+      });
+    }
+    const bucket = minuteBuckets.get(key)!;
+    bucket.sum += item.score;
+    bucket.count += 1;
+    bucket.labels[item.label] += 1;
+    bucket.analyzers[item.analyzer] += 1;
+    bucket.languages[item.language] += 1;
+    SENTIMENT_LABELS.forEach((name) => (bucket.probabilities[name] += item.probabilities[name]));
   });
-  return Object.entries(minuteBuckets).map(([timestamp, { sum, count }]) => ({
-    timestamp: Number(timestamp),
+
+  return [...minuteBuckets.values()].map(({ timestamp, group, sum, count, probabilities, ...counts }) => ({
+    timestamp,
+    eventId,
+    ...(groupBy === "zone" ? { zone: group } : {}),
+    ...(groupBy === "channel" ? { channel: group } : {}),
     average: sum / count,
+    count,
+    negative: probabilities.negative / count,
+    neutral: probabilities.neutral / count,
+    positive: probabilities.positive / count,
+    // labels, analyzers and languages
+    ...counts,
+  }));
+}
+
+export type AspectSums = Map<string, { count: number; scoreSum: number; polarities: AggregatedAspect["polarities"] }>;
+
+// Turn per-aspect sums into the dashboard view, worst impact first; aspects never mentioned are left out
+export function toAggregatedAspects(sums: AspectSums, total: number): AggregatedAspect[] {
+  return ASPECT_TAXONOMY.filter(({ name }) => sums.get(name)?.count)
+    .map(({ name, label }) => {
+      const { count, scoreSum, polarities } = sums.get(name)!;
+      return { aspect: name, label, count, average: scoreSum / count, impact: scoreSum / total, polarities };
+    })
+    .sort((a, b) => a.impact - b.impact);
+}
+
+// Aspect mentions of one event over the live window
+export function aggregateAspects(query: Omit<SentimentQuery, "groupBy">): AggregatedAspect[] {
+  cleanOldData();
+  const { eventId, zone, channel, since = 0 } = query;
+  const sums: AspectSums = new Map();
+  let total = 0;
+
+  (sentimentData.get(eventId) || []).forEach((item) => {
+    if (item.timestamp < since) return;
+    if (zone && item.zone !== zone) return;
+    if (channel && item.channel !== channel) return;
+
+    total += 1;
+    item.aspects.forEach(({ aspect, polarity, score }) => {
+      const sum = sums.get(aspect) || { count: 0, scoreSum: 0, polarities: { negative: 0, neutral: 0, positive: 0 } };
+      sum.count += 1;
+      sum.scoreSum += score;
+      sum.polarities[polarity] += 1;
+      sums.set(aspect, sum);
+    });
+  });
+
+  return toAggregatedAspects(sums, total);
+}
+
+function softmax(logits: number[]): number[] {
+  const max = Math.max(...logits);
+  const exps = logits.map((logit) => Math.exp(logit - max));
+  const sum = exps.reduce((total, value) => total + value, 0);
+  return exps.map((value) => value / sum);
+}
+
+// Turn one row of model output into negative/neutral/positive logits.
+// Rows that are already a distribution are converted back to log-space.
+export function toLogits(row: number[]): number[] {
+  if (row.length === 1) {
+    // Legacy single sigmoid output: positive vs negative only
+    const p = Math.min(Math.max(row[0], 1e-7), 1 - 1e-7);
+    return [Math.log(1 - p), -Infinity, Math.log(p)];
+  }
+  if (row.every((value) => value >= 0 && value <= 1) && Math.abs(row.reduce((a, b) => a + b, 0) - 1) < 1e-3) {
+    return row.map((value) => Math.log(Math.max(value, 1e-12)));
+  }
+  return row;
+}
+
+// Turn one row of model output into class probabilities, scaled by the version's temperature
+export function toProbabilities(row: number[], temperature: number = DEFAULT_TEMPERATURE): SentimentProbabilities {
+  const [negative, neutral, positive] = softmax(toLogits(row).map((logit) => logit / temperature));
+  return { negative, neutral, positive };
+}
+
+export function toSentimentResult(
+  probabilities: SentimentProbabilities,
+  modelVersion: string | null = null,
+  analyzer: SentimentAnalyzer = "model"
+): SentimentResult {
+  // Ties go to neutral
+  const sentiment = SENTIMENT_LABELS.reduce<SentimentLabel>(
+    (best, label) => (probabilities[label] > probabilities[best] ? label : best),
+    "neutral"
+  );
+  return {
+    sentiment,
+    confidence: probabilities[sentiment],
+    probabilities,
+    modelVersion,
+    analyzer,
+    aspects: [],
+    language: "unknown",
+  };
+}
+
+// Score on a 0..1 scale for the time series: positive pulls up, negative pulls down
+export function sentimentScore({ negative, positive }: SentimentProbabilities): number {
+  return (1 + positive - negative) / 2;
+}
+
+interface PreparedTexts {
+  languages: SentimentLanguage[];
+  // Glossed into English, as both the model and the lexicon are English-only
+  normalized: string[];
+}
+
+function prepareTexts(texts: string[]): PreparedTexts {
+  const languages = texts.map((text) => detectLanguage(text).language);
+  return { languages, normalized: texts.map((text, index) => normalizeForSentiment(text, languages[index])) };
+}
+
+function finishResults(results: SentimentResult[], { languages, normalized }: PreparedTexts): SentimentResult[] {
+  return results.map((result, index) => ({
+    ...result,
+    aspects: extractAspects(normalized[index], result),
+    language: languages[index],
   }));
 }
 
-export async function analyzeSentiment(text: string): Promise<{ sentiment: string; confidence: number }> {
-  if (!model) {
-    console.warn("Model not loaded. Returning dummy response.");
-    return { sentiment: "neutral", confidence: 0.5 }; // Dummy response
+async function predictRows({ model, tokenizer }: LoadedModel, texts: string[]): Promise<number[][]> {
+  const { inputIds, attentionMask } = preprocessText(texts, tokenizer);
+  // Models exported with an attention_mask input take both tensors
+  const inputs = model.inputs.length > 1 ? [inputIds, attentionMask] : inputIds;
+  const prediction = model.predict(inputs) as tf.Tensor;
+  const rows = (await prediction.array()) as number[][];
+  tf.dispose([inputIds, attentionMask, prediction]);
+  return rows;
+}
+
+// One forward pass over texts already normalized for the model; no aspects or language yet
+export async function predict(loaded: LoadedModel, texts: string[]): Promise<SentimentResult[]> {
+  const rows = await predictRows(loaded, texts);
+  return rows.map((row) => toSentimentResult(toProbabilities(row, loaded.temperature), loaded.version));
+}
+
+// Unscaled logits of a given model for raw texts (used to fit its temperature)
+export async function modelLogits(texts: string[], loaded: LoadedModel): Promise<number[][]> {
+  return (await predictRows(loaded, prepareTexts(texts).normalized)).map(toLogits);
+}
+
+// Score texts with a given model, without the lexicon fallback (used to evaluate model versions)
+export async function analyzeWithModel(texts: string[], loaded: LoadedModel): Promise<SentimentResult[]> {
+  const prepared = prepareTexts(texts);
+  return finishResults(await predict(loaded, prepared.normalized), prepared);
+}
+
+function scoreWithLexicon(prepared: PreparedTexts): SentimentResult[] {
+  const results = prepared.normalized.map((text) =>
+    toSentimentResult(analyzeLexicon(text).probabilities, null, "lexicon")
+  );
+  return finishResults(results, prepared);
+}
+
+// Score texts with the rule-based lexicon only
+export function analyzeWithLexicon(texts: string[]): SentimentResult[] {
+  return scoreWithLexicon(prepareTexts(texts));
+}
+
+// Warn once per stretch without a model rather than once per batch
+let warnedNoModel = false;
+
+// Score several texts in one forward pass of the active model version.
+// Without a usable model the lexicon scores them instead, and the results say so.
+export async function analyzeSentimentBatch(texts: string[]): Promise<SentimentResult[]> {
+  if (!texts.length) return [];
+
+  const prepared = prepareTexts(texts);
+  let results: SentimentResult[] | null = null;
+  try {
+    results = await withActiveModel((loaded) => predict(loaded, prepared.normalized));
+    if (!results && !warnedNoModel) console.warn("Model not loaded. Falling back to lexicon analyzer.");
+    warnedNoModel = !results;
+  } catch (error) {
+    console.error("Model prediction failed, falling back to lexicon analyzer:", error);
   }
 
-  const inputTensor = preprocessText(text);
-  const prediction = model.predict(inputTensor) as tf.Tensor;
-  const score = prediction.dataSync()[0];
-  return { sentiment: score > 0.5 ? "positive" : "negative", confidence: score };
-}
\ No newline at end of file
+  return results ? finishResults(results, prepared) : scoreWithLexicon(prepared);
+}
+
+export async function analyzeSentiment(text: string): Promise<SentimentResult> {
+  const [result] = await analyzeSentimentBatch([text]);
+  return result;
+}
@@ -0,0 +1,252 @@
+import { AnyBulkWriteOperation, Document } from "mongodb";
+import { getDB } from "../config/db";
+import { AspectSums, NO_ZONE, toAggregatedAspects } from "./sentiment";
+import { SENTIMENT_LANGUAGES } from "./language";
+import {
+  AggregatedAspect,
+  AggregatedSentiment,
+  SentimentData,
+  SentimentGranularity,
+  SentimentHistoryQuery,
+} from "../types";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const ITEMS_COLLECTION = "sentiment_items";
+
+const days = (name: string, fallback: number) => parseInt(process.env[name] || String(fallback), 10) * 24 * 60 * 60;
+
+// Raw items are kept briefly; each rollup keeps its own history length
+const RAW_RETENTION_SECONDS = days("SENTIMENT_RETENTION_RAW_DAYS", 7);
+
+interface Rollup {
+  granularity: SentimentGranularity;
+  ms: number;
+  collection: string;
+  retentionSeconds: number;
+}
+
+const ROLLUPS: Rollup[] = [
+  { granularity: "1m", ms: MINUTE, collection: "sentiment_rollups_1m", retentionSeconds: days("SENTIMENT_RETENTION_1M_DAYS", 7) },
+  { granularity: "15m", ms: 15 * MINUTE, collection: "sentiment_rollups_15m", retentionSeconds: days("SENTIMENT_RETENTION_15M_DAYS", 90) },
+  { granularity: "1h", ms: HOUR, collection: "sentiment_rollups_1h", retentionSeconds: days("SENTIMENT_RETENTION_1H_DAYS", 730) },
+];
+
+export const SENTIMENT_GRANULARITIES: SentimentGranularity[] = ["1m", "15m", "1h", "1d"];
+
+// Create a TTL index, or update its expiry when the configured retention changed
+async function ensureTTLIndex(collection: string, seconds: number): Promise<void> {
+  const db = getDB()!;
+  try {
+    await db.collection(collection).createIndex({ bucket: 1 }, { name: "bucket_ttl", expireAfterSeconds: seconds });
+  } catch (error: any) {
+    if (error.codeName !== "IndexOptionsConflict") throw error;
+    await db.command({ collMod: collection, index: { name: "bucket_ttl", expireAfterSeconds: seconds } });
+  }
+}
+
+export async function initSentimentStore(): Promise<void> {
+  const db = getDB();
+  if (!db) return;
+
+  const existing = new Set((await db.listCollections({}, { nameOnly: true }).toArray()).map(({ name }) => name));
+  if (!existing.has(ITEMS_COLLECTION)) {
+    await db.createCollection(ITEMS_COLLECTION, {
+      timeseries: { timeField: "timestamp", metaField: "meta", granularity: "seconds" },
+      expireAfterSeconds: RAW_RETENTION_SECONDS,
+    });
+  } else {
+    await db.command({ collMod: ITEMS_COLLECTION, expireAfterSeconds: RAW_RETENTION_SECONDS });
+  }
+
+  for (const rollup of ROLLUPS) {
+    await db
+      .collection(rollup.collection)
+      .createIndex({ eventId: 1, bucket: 1, channel: 1, zone: 1 }, { unique: true });
+    await ensureTTLIndex(rollup.collection, rollup.retentionSeconds);
+  }
+}
+
+// Store scored items and add them to every rollup
+export async function persistSentiment(items: SentimentData[]): Promise<void> {
+  const db = getDB();
+  if (!db || !items.length) return;
+
+  await db.collection(ITEMS_COLLECTION).insertMany(
+    items.map(({ timestamp, eventId, channel, zone, score, label, probabilities, analyzer, aspects, language }) => ({
+      timestamp: new Date(timestamp),
+      meta: { eventId, channel, zone: zone || NO_ZONE },
+      score,
+      label,
+      probabilities,
+      analyzer,
+      aspects,
+      language,
+    }))
+  );
+
+  await Promise.all(
+    ROLLUPS.map((rollup) => {
+      const operations: AnyBulkWriteOperation[] = items.map((item) => ({
+        updateOne: {
+          filter: {
+            eventId: item.eventId,
+            bucket: new Date(Math.floor(item.timestamp / rollup.ms) * rollup.ms),
+            channel: item.channel,
+            zone: item.zone || NO_ZONE,
+          },
+          update: {
+            $inc: {
+              count: 1,
+              scoreSum: item.score,
+              negativeSum: item.probabilities.negative,
+              neutralSum: item.probabilities.neutral,
+              positiveSum: item.probabilities.positive,
+              [`labels.${item.label}`]: 1,
+              [`analyzers.${item.analyzer}`]: 1,
+              [`languages.${item.language}`]: 1,
+              ...Object.fromEntries(
+                item.aspects.flatMap(({ aspect, polarity, score }) => [
+                  [`aspects.${aspect}.count`, 1],
+                  [`aspects.${aspect}.scoreSum`, score],
+                  [`aspects.${aspect}.${polarity}`, 1],
+                ])
+              ),
+            },
+          },
+          upsert: true,
+        },
+      }));
+      return db.collection(rollup.collection).bulkWrite(operations, { ordered: false });
+    })
+  );
+}
+
+// Pick a bucket size that keeps a chart at a few hundred points at most
+export function defaultGranularity(from: Date, to: Date): SentimentGranularity {
+  const range = to.getTime() - from.getTime();
+  if (range <= 6 * HOUR) return "1m";
+  if (range <= 2 * DAY) return "15m";
+  if (range <= 14 * DAY) return "1h";
+  return "1d";
+}
+
+function rollupFor(granularity: SentimentGranularity): Rollup {
+  return ROLLUPS.find((candidate) => candidate.granularity === granularity) || ROLLUPS[ROLLUPS.length - 1];
+}
+
+// Buckets of one event over a range; daily buckets are summed from the hourly rollup
+export async function querySentimentHistory(query: SentimentHistoryQuery): Promise<AggregatedSentiment[]> {
+  const db = getDB();
+  if (!db) return [];
+
+  const { eventId, from, to, zone, channel, groupBy } = query;
+  const granularity = query.granularity || defaultGranularity(from, to);
+  const rollup = rollupFor(granularity);
+
+  const match: Document = { eventId, bucket: { $gte: from, $lt: to } };
+  if (zone) match.zone = zone;
+  if (channel) match.channel = channel;
+
+  const rows = await db
+    .collection(rollup.collection)
+    .aggregate([
+      { $match: match },
+      {
+        $group: {
+          _id: {
+            bucket: granularity === "1d" ? { $dateTrunc: { date: "$bucket", unit: "day" } } : "$bucket",
+            group: groupBy ? `$${groupBy}` : null,
+          },
+          count: { $sum: "$count" },
+          scoreSum: { $sum: "$scoreSum" },
+          negativeSum: { $sum: "$negativeSum" },
+          neutralSum: { $sum: "$neutralSum" },
+          positiveSum: { $sum: "$positiveSum" },
+          negativeLabels: { $sum: "$labels.negative" },
+          neutralLabels: { $sum: "$labels.neutral" },
+          positiveLabels: { $sum: "$labels.positive" },
+          modelItems: { $sum: "$analyzers.model" },
+          lexiconItems: { $sum: "$analyzers.lexicon" },
+          emojiItems: { $sum: "$analyzers.emoji" },
+          ...Object.fromEntries(
+            SENTIMENT_LANGUAGES.map((language) => [`${language}Items`, { $sum: `$languages.${language}` }])
+          ),
+        },
+      },
+      { $sort: { "_id.bucket": 1 } },
+    ])
+    .toArray();
+
+  return rows.map((row) => ({
+    timestamp: new Date(row._id.bucket).getTime(),
+    eventId,
+    ...(groupBy === "zone" ? { zone: row._id.group } : {}),
+    ...(groupBy === "channel" ? { channel: row._id.group } : {}),
+    average: row.scoreSum / row.count,
+    count: row.count,
+    negative: row.negativeSum / row.count,
+    neutral: row.neutralSum / row.count,
+    positive: row.positiveSum / row.count,
+    labels: { negative: row.negativeLabels, neutral: row.neutralLabels, positive: row.positiveLabels },
+    analyzers: { model: row.modelItems, lexicon: row.lexiconItems, emoji: row.emojiItems },
+    languages: Object.fromEntries(
+      SENTIMENT_LANGUAGES.map((language) => [language, row[`${language}Items`]])
+    ) as AggregatedSentiment["languages"],
+  }));
+}
+
+// Aspect mentions of one event over a range, read from the finest rollup that keeps the result small
+export async function querySentimentAspects(
+  query: Omit<SentimentHistoryQuery, "groupBy">
+): Promise<AggregatedAspect[]> {
+  const db = getDB();
+  if (!db) return [];
+
+  const { eventId, from, to, zone, channel } = query;
+  const rollup = rollupFor(query.granularity || defaultGranularity(from, to));
+
+  const match: Document = { eventId, bucket: { $gte: from, $lt: to } };
+  if (zone) match.zone = zone;
+  if (channel) match.channel = channel;
+
+  const [result] = await db
+    .collection(rollup.collection)
+    .aggregate([
+      { $match: match },
+      {
+        $facet: {
+          total: [{ $group: { _id: null, count: { $sum: "$count" } } }],
+          aspects: [
+            { $project: { aspects: { $objectToArray: { $ifNull: ["$aspects", {}] } } } },
+            { $unwind: "$aspects" },
+            {
+              $group: {
+                _id: "$aspects.k",
+                count: { $sum: "$aspects.v.count" },
+                scoreSum: { $sum: "$aspects.v.scoreSum" },
+                negative: { $sum: "$aspects.v.negative" },
+                neutral: { $sum: "$aspects.v.neutral" },
+                positive: { $sum: "$aspects.v.positive" },
+              },
+            },
+          ],
+        },
+      },
+    ])
+    .toArray();
+
+  const sums: AspectSums = new Map(
+    (result?.aspects || []).map((row: Document) => [
+      row._id,
+      {
+        count: row.count,
+        scoreSum: row.scoreSum,
+        polarities: { negative: row.negative, neutral: row.neutral, positive: row.positive },
+      },
+    ])
+  );
+  return toAggregatedAspects(sums, result?.total[0]?.count || 0);
+}
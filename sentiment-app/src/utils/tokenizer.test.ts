@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import { loadTokenizer, Tokenizer } from "./tokenizer";
+
+// Ids from the Hugging Face RobertaTokenizer for ai_model/pretrained_sentiment (roberta-base vocabulary)
+const KNOWN_ENCODINGS: { name: string; text: string; ids: number[] }[] = [
+  { name: "ascii", text: "Hello world!", ids: [0, 31414, 232, 328, 2] },
+  {
+    name: "ascii with repeated spaces and punctuation",
+    text: "The wifi kept dropping   during the keynote, but the food was great :)",
+    ids: [0, 133, 42387, 1682, 6614, 1437, 1437, 148, 5, 18417, 6, 53, 5, 689, 21, 372, 44660, 2],
+  },
+  {
+    name: "emoji with a skin tone modifier",
+    text: "Loved it 😍🔥 would come again 👍🏽",
+    ids: [0, 574, 12677, 24, 17841, 8384, 6569, 10674, 8210, 74, 283, 456, 26964, 8384, 6569, 9357, 10809, 2],
+  },
+  {
+    name: "devanagari",
+    text: "खाना बहुत अच्छा था",
+    ids: [
+      0, 14238, 25448, 35636, 14238, 11423, 35636, 22214, 11582, 14238, 9253, 22919, 10172, 14238, 10470, 22214, 5782,
+      14238, 15113, 22919, 8384, 14238, 3726, 35636, 22214, 8210, 35636, 2,
+    ],
+  },
+  {
+    name: "mixed scripts",
+    text: "Service was ठीक ठाक, parking was a nightmare 😡",
+    ids: [
+      0, 32537, 21, 22214, 21402, 22919, 7471, 14238, 15722, 22214, 21402, 35636, 14238, 15722, 6, 2932, 21, 10, 12808,
+      17841, 5543, 2,
+    ],
+  },
+  { name: "mask", text: "The capital of France is <mask>.", ids: [0, 133, 812, 9, 1470, 16, 50264, 4, 2] },
+  {
+    name: "mask swallowing the space before it",
+    text: "I can't believe it's   over <mask>",
+    ids: [0, 100, 64, 75, 679, 24, 18, 1437, 1437, 81, 50264, 2],
+  },
+];
+
+describe("tokenizer", () => {
+  let tokenizer: Tokenizer;
+
+  before(async () => {
+    tokenizer = await loadTokenizer();
+  });
+
+  describe("matches the Python tokenizer", () => {
+    KNOWN_ENCODINGS.forEach(({ name, text, ids }) => {
+      it(name, () => {
+        assert.deepEqual(tokenizer.encode(text).inputIds, ids);
+      });
+    });
+  });
+
+  it("decodes back to the original text", () => {
+    KNOWN_ENCODINGS.filter(({ text }) => !text.includes("<mask>")).forEach(({ text, ids }) => {
+      assert.equal(tokenizer.decode(ids), text);
+    });
+  });
+
+  it("truncates to maxLength keeping the special tokens", () => {
+    const { inputIds } = tokenizer.encode(KNOWN_ENCODINGS[1].text, { maxLength: 6 });
+    assert.deepEqual(inputIds, [0, 133, 42387, 1682, 6614, 2]);
+  });
+
+  it("pads a batch to its longest text", () => {
+    const { inputIds, attentionMask } = tokenizer.encodeBatch(["Hello world!", "Hello"]);
+    assert.deepEqual(inputIds, [
+      [0, 31414, 232, 328, 2],
+      [0, 31414, 2, 1, 1],
+    ]);
+    assert.deepEqual(attentionMask, [
+      [1, 1, 1, 1, 1],
+      [1, 1, 1, 0, 0],
+    ]);
+  });
+});
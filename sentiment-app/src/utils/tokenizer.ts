@@ -0,0 +1,301 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+// Same assets the Python side saves with tokenizer.save_pretrained("pretrained_sentiment")
+export const TOKENIZER_DIR =
+  process.env.TOKENIZER_DIR || path.join(__dirname, "../../../ai_model/pretrained_sentiment");
+
+// RoBERTa has 514 positions, two of which are reserved by the padding offset
+const DEFAULT_MAX_LENGTH = parseInt(process.env.TOKENIZER_MAX_LENGTH || "512", 10);
+
+// GPT-2 pre-tokenization pattern; built at runtime because \p{..} needs the u flag (ES2018)
+const PRE_TOKENIZE_PATTERN = "'s|'t|'re|'ve|'m|'ll|'d| ?\\p{L}+| ?\\p{N}+| ?[^\\s\\p{L}\\p{N}]+|\\s+(?!\\S)|\\s+";
+
+export type PaddingStrategy = "longest" | "max_length" | false;
+
+export interface EncodeOptions {
+  maxLength?: number;
+  truncation?: boolean;
+  padding?: PaddingStrategy;
+  addSpecialTokens?: boolean;
+}
+
+export interface Encoding {
+  inputIds: number[];
+  attentionMask: number[];
+  tokens: string[];
+}
+
+export interface BatchEncoding {
+  inputIds: number[][];
+  attentionMask: number[][];
+}
+
+export interface SpecialToken {
+  content: string;
+  id: number;
+  lstrip: boolean;
+  rstrip: boolean;
+}
+
+export interface Tokenizer {
+  bosId: number;
+  eosId: number;
+  padId: number;
+  unkId: number;
+  vocabSize: number;
+  tokenize(text: string): string[];
+  encode(text: string, options?: EncodeOptions): Encoding;
+  encodeBatch(texts: string[], options?: EncodeOptions): BatchEncoding;
+  decode(ids: number[], skipSpecialTokens?: boolean): string;
+}
+
+interface TokenizerFiles {
+  vocab: { [token: string]: number };
+  merges: [string, string][];
+  specialTokens: SpecialToken[];
+  bosToken: string;
+  eosToken: string;
+  padToken: string;
+  unkToken: string;
+}
+
+// Map every byte to a printable unicode character, as in GPT-2's bytes_to_unicode
+function bytesToUnicode(): string[] {
+  const printable: number[] = [];
+  for (let b = 33; b <= 126; b++) printable.push(b);
+  for (let b = 161; b <= 172; b++) printable.push(b);
+  for (let b = 174; b <= 255; b++) printable.push(b);
+
+  const table: string[] = new Array(256);
+  let next = 0;
+  for (let b = 0; b < 256; b++) {
+    table[b] = String.fromCharCode(printable.includes(b) ? b : 256 + next++);
+  }
+  return table;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+export function createTokenizer(files: TokenizerFiles): Tokenizer {
+  const { vocab, merges, specialTokens } = files;
+  const idToToken: string[] = [];
+  Object.entries(vocab).forEach(([token, id]) => (idToToken[id] = token));
+  specialTokens.forEach(({ content, id }) => (idToToken[id] = content));
+
+  const tokenId = (token: string) => {
+    const id = vocab[token] ?? specialTokens.find((special) => special.content === token)?.id;
+    if (id === undefined) throw new Error(`Token ${token} is not in the vocabulary`);
+    return id;
+  };
+
+  const bosId = tokenId(files.bosToken);
+  const eosId = tokenId(files.eosToken);
+  const padId = tokenId(files.padToken);
+  const unkId = tokenId(files.unkToken);
+
+  const byteEncoder = bytesToUnicode();
+  const byteDecoder = new Map(byteEncoder.map((char, byte) => [char, byte]));
+  const ranks = new Map(merges.map(([a, b], rank) => [`${a} ${b}`, rank]));
+  const preTokenize = new RegExp(PRE_TOKENIZE_PATTERN, "gu");
+  const specialIds = new Set(specialTokens.map(({ id }) => id));
+  const specialById = new Map(specialTokens.map((special) => [special.content, special]));
+  const cache = new Map<string, string[]>();
+
+  // Special tokens in the raw text are matched before BPE; lstrip/rstrip ones swallow adjacent spaces
+  const specialPattern = specialTokens.length
+    ? new RegExp(
+        specialTokens
+          .slice()
+          .sort((a, b) => b.content.length - a.content.length)
+          .map(({ content, lstrip, rstrip }) => `${lstrip ? "\\s*" : ""}${escapeRegExp(content)}${rstrip ? "\\s*" : ""}`)
+          .join("|"),
+        "g"
+      )
+    : null;
+
+  // Merge the lowest-ranked adjacent pair until no known merge is left
+  const bpe = (word: string): string[] => {
+    const cached = cache.get(word);
+    if (cached) return cached;
+
+    let parts = Array.from(word);
+    while (parts.length > 1) {
+      let best = -1;
+      let bestRank = Infinity;
+      for (let i = 0; i < parts.length - 1; i++) {
+        const rank = ranks.get(`${parts[i]} ${parts[i + 1]}`);
+        if (rank !== undefined && rank < bestRank) {
+          bestRank = rank;
+          best = i;
+        }
+      }
+      if (best === -1) break;
+
+      const first = parts[best];
+      const second = parts[best + 1];
+      const merged: string[] = [];
+      for (let i = 0; i < parts.length; i++) {
+        if (i < parts.length - 1 && parts[i] === first && parts[i + 1] === second) {
+          merged.push(first + second);
+          i++;
+        } else {
+          merged.push(parts[i]);
+        }
+      }
+      parts = merged;
+    }
+
+    if (cache.size < 50000) cache.set(word, parts);
+    return parts;
+  };
+
+  const tokenizeText = (text: string): string[] => {
+    const tokens: string[] = [];
+    for (const piece of text.match(preTokenize) || []) {
+      const encoded = Array.from(Buffer.from(piece, "utf8"), (byte) => byteEncoder[byte]).join("");
+      tokens.push(...bpe(encoded));
+    }
+    return tokens;
+  };
+
+  const tokenize = (text: string): string[] => {
+    if (!specialPattern) return tokenizeText(text);
+
+    const tokens: string[] = [];
+    let last = 0;
+    for (const match of text.matchAll(specialPattern)) {
+      tokens.push(...tokenizeText(text.slice(last, match.index)));
+      tokens.push(match[0].trim());
+      last = (match.index || 0) + match[0].length;
+    }
+    tokens.push(...tokenizeText(text.slice(last)));
+    return tokens;
+  };
+
+  const toId = (token: string) => specialById.get(token)?.id ?? vocab[token] ?? unkId;
+
+  const encode = (text: string, options: EncodeOptions = {}): Encoding => {
+    const { maxLength = DEFAULT_MAX_LENGTH, truncation = true, padding = false, addSpecialTokens = true } = options;
+    let tokens = tokenize(text);
+
+    if (truncation) {
+      const room = maxLength - (addSpecialTokens ? 2 : 0);
+      tokens = tokens.slice(0, Math.max(room, 0));
+    }
+    if (addSpecialTokens) {
+      tokens = [files.bosToken, ...tokens, files.eosToken];
+    }
+
+    const inputIds = tokens.map(toId);
+    const attentionMask = inputIds.map(() => 1);
+
+    if (padding === "max_length") {
+      while (inputIds.length < maxLength) {
+        tokens.push(files.padToken);
+        inputIds.push(padId);
+        attentionMask.push(0);
+      }
+    }
+
+    return { inputIds, attentionMask, tokens };
+  };
+
+  // Encode several texts into rectangular id and mask matrices, padded on the right
+  const encodeBatch = (texts: string[], options: EncodeOptions = {}): BatchEncoding => {
+    const { padding = "longest", maxLength = DEFAULT_MAX_LENGTH } = options;
+    const encodings = texts.map((text) => encode(text, { ...options, padding: false }));
+    const width =
+      padding === "max_length"
+        ? maxLength
+        : padding === "longest"
+          ? Math.max(0, ...encodings.map(({ inputIds }) => inputIds.length))
+          : 0;
+
+    return {
+      inputIds: encodings.map(({ inputIds }) => [...inputIds, ...new Array(Math.max(width - inputIds.length, 0)).fill(padId)]),
+      attentionMask: encodings.map(({ attentionMask }) => [
+        ...attentionMask,
+        ...new Array(Math.max(width - attentionMask.length, 0)).fill(0),
+      ]),
+    };
+  };
+
+  const decode = (ids: number[], skipSpecialTokens: boolean = true): string => {
+    let text = "";
+    let bytes: number[] = [];
+    const flush = () => {
+      text += Buffer.from(bytes).toString("utf8");
+      bytes = [];
+    };
+
+    ids.forEach((id) => {
+      if (specialIds.has(id)) {
+        flush();
+        if (!skipSpecialTokens) text += idToToken[id];
+        return;
+      }
+      for (const char of idToToken[id] || "") {
+        const byte = byteDecoder.get(char);
+        if (byte !== undefined) bytes.push(byte);
+      }
+    });
+    flush();
+
+    return text;
+  };
+
+  return {
+    bosId,
+    eosId,
+    padId,
+    unkId,
+    vocabSize: idToToken.length,
+    tokenize,
+    encode,
+    encodeBatch,
+    decode,
+  };
+}
+
+const tokenContent = (token: string | { content: string }) => (typeof token === "string" ? token : token.content);
+
+// Load vocab.json, merges.txt and the special tokens written by the Hugging Face tokenizer
+export async function loadTokenizer(dir: string = TOKENIZER_DIR): Promise<Tokenizer> {
+  const [vocabJson, mergesTxt, specialJson, tokenizerJson] = await Promise.all([
+    fs.readFile(path.join(dir, "vocab.json"), "utf8"),
+    fs.readFile(path.join(dir, "merges.txt"), "utf8"),
+    fs.readFile(path.join(dir, "special_tokens_map.json"), "utf8"),
+    fs.readFile(path.join(dir, "tokenizer.json"), "utf8").catch(() => null),
+  ]);
+
+  const vocab = JSON.parse(vocabJson);
+  const specialMap = JSON.parse(specialJson);
+  const merges = mergesTxt
+    .split("\n")
+    .filter((line) => line && !line.startsWith("#version"))
+    .map((line) => line.split(" ") as [string, string]);
+
+  // tokenizer.json lists the added tokens with their ids and strip flags
+  const addedTokens: any[] = tokenizerJson ? JSON.parse(tokenizerJson).added_tokens || [] : [];
+  const specialTokens: SpecialToken[] = addedTokens.length
+    ? addedTokens.map(({ content, id, lstrip, rstrip }) => ({ content, id, lstrip: !!lstrip, rstrip: !!rstrip }))
+    : Object.values(specialMap).map((token: any) => ({
+        content: tokenContent(token),
+        id: vocab[tokenContent(token)],
+        lstrip: !!token.lstrip,
+        rstrip: !!token.rstrip,
+      }));
+
+  return createTokenizer({
+    vocab,
+    merges,
+    specialTokens: specialTokens.filter(
+      (token, index) => token.id !== undefined && specialTokens.findIndex((other) => other.content === token.content) === index
+    ),
+    bosToken: tokenContent(specialMap.bos_token || specialMap.cls_token),
+    eosToken: tokenContent(specialMap.eos_token || specialMap.sep_token),
+    padToken: tokenContent(specialMap.pad_token),
+    unkToken: tokenContent(specialMap.unk_token),
+  });
+}
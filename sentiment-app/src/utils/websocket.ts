@@ -1,24 +1,198 @@
-import { Server as WebSocketServer } from "ws";
-import { Server } from "http";
-import { aggregateSentiment } from "./sentiment";
+import { Server as WebSocketServer, WebSocket, RawData } from "ws";
+import { IncomingMessage, Server } from "http";
+import { aggregateSentiment, LIVE_WINDOW_MS } from "./sentiment";
+import { querySentimentHistory } from "./sentimentStore";
+import { authenticateRequest, canAccessEvent } from "../middleware/auth";
+import {
+  AggregatedSentiment,
+  ClientMessage,
+  SentimentData,
+  SentimentGroupBy,
+  SentimentTopic,
+  ServerMessage,
+} from "../types";
+
+const MINUTE = 60 * 1000;
+// Sockets that do not answer a ping within one interval are dropped
+const HEARTBEAT_MS = parseInt(process.env.WS_HEARTBEAT_MS || "30000", 10);
+// Coalesce deltas so a burst of scored texts sends one message per topic
+const BROADCAST_INTERVAL_MS = parseInt(process.env.BROADCAST_INTERVAL_MS || "1000", 10);
+const MAX_SUBSCRIPTIONS = parseInt(process.env.WS_MAX_SUBSCRIPTIONS || "20", 10);
+
+interface ClientState {
+  userId: string;
+  alive: boolean;
+  subscriptions: Map<string, SentimentTopic>;
+  allowedEvents: Set<string>;
+}
+
+const clients = new Map<WebSocket, ClientState>();
+// Earliest minute touched since the last delta, per event
+const dirtyEvents = new Map<string, number>();
+let broadcastTimer: NodeJS.Timeout | null = null;
+
+const minuteFloor = (timestamp: number) => Math.floor(timestamp / MINUTE) * MINUTE;
+
+export const topicKey = ({ eventId, zone, channel, groupBy }: SentimentTopic) =>
+  `event:${eventId}|zone:${zone || "*"}|channel:${channel || "*"}|groupBy:${groupBy || "none"}`;
+
+function send(ws: WebSocket, message: ServerMessage): void {
+  if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(message));
+}
+
+function parseTopic(topic: any): SentimentTopic | null {
+  if (!topic || typeof topic.eventId !== "string" || !topic.eventId) return null;
+  if (topic.groupBy && topic.groupBy !== "zone" && topic.groupBy !== "channel") return null;
+  return {
+    eventId: topic.eventId,
+    zone: typeof topic.zone === "string" && topic.zone ? topic.zone : undefined,
+    channel: typeof topic.channel === "string" && topic.channel ? topic.channel : undefined,
+    groupBy: topic.groupBy as SentimentGroupBy | undefined,
+  };
+}
+
+// Buckets from `since` onwards: older minutes come from the store, the last hour from memory
+async function snapshot(topic: SentimentTopic, since?: number): Promise<AggregatedSentiment[]> {
+  const windowStart = minuteFloor(Date.now() - LIVE_WINDOW_MS);
+  const from = since !== undefined ? minuteFloor(since) : windowStart;
+  const live = aggregateSentiment({ ...topic, since: Math.max(from, windowStart) });
+  if (from >= windowStart) return live;
+
+  const stored = await querySentimentHistory({
+    ...topic,
+    from: new Date(from),
+    to: new Date(windowStart),
+    granularity: "1m",
+  });
+  return [...stored, ...live];
+}
+
+async function handleMessage(ws: WebSocket, state: ClientState, raw: RawData): Promise<void> {
+  let message: ClientMessage;
+  try {
+    message = JSON.parse(raw.toString());
+  } catch {
+    return send(ws, { type: "error", message: "Messages must be JSON" });
+  }
+
+  switch (message.type) {
+    case "ping":
+      return send(ws, { type: "pong", id: message.id, ts: Date.now() });
+
+    case "subscribe": {
+      const topic = parseTopic(message.topic);
+      if (!topic) return send(ws, { type: "error", id: message.id, message: "topic.eventId is required" });
+
+      const key = topicKey(topic);
+      if (!state.subscriptions.has(key) && state.subscriptions.size >= MAX_SUBSCRIPTIONS) {
+        return send(ws, { type: "error", id: message.id, message: `At most ${MAX_SUBSCRIPTIONS} subscriptions` });
+      }
+      if (!state.allowedEvents.has(topic.eventId)) {
+        if (!(await canAccessEvent(state.userId, topic.eventId))) {
+          return send(ws, { type: "error", id: message.id, message: "Not allowed to watch this event" });
+        }
+        state.allowedEvents.add(topic.eventId);
+      }
+
+      const since = typeof message.since === "number" ? message.since : undefined;
+      state.subscriptions.set(key, topic);
+      return send(ws, { type: "subscribed", id: message.id, topic: key, snapshot: await snapshot(topic, since), ts: Date.now() });
+    }
+
+    case "unsubscribe": {
+      const topic = parseTopic(message.topic);
+      if (!topic) return send(ws, { type: "error", id: message.id, message: "topic.eventId is required" });
+
+      const key = topicKey(topic);
+      state.subscriptions.delete(key);
+      return send(ws, { type: "unsubscribed", id: message.id, topic: key });
+    }
+
+    default:
+      return send(ws, { type: "error", message: "Unknown message type" });
+  }
+}
 
 export function initializeWebSocket(server: Server): WebSocketServer {
-  const wss = new WebSocketServer({ server });
+  const wss = new WebSocketServer({
+    server,
+    // Reject the upgrade outright when the access_token cookie is missing or invalid
+    verifyClient: ({ req }: { req: IncomingMessage }, done: (result: boolean, code?: number, message?: string) => void) => {
+      const user = authenticateRequest(req);
+      if (!user) return done(false, 401, "Unauthorized");
+      (req as any).user = user;
+      done(true);
+    },
+  });
+
+  wss.on("connection", (ws, req) => {
+    const state: ClientState = {
+      userId: String((req as any).user.id),
+      alive: true,
+      subscriptions: new Map(),
+      allowedEvents: new Set(),
+    };
+    clients.set(ws, state);
+    console.log(`WebSocket client connected for user ${state.userId}`);
 
-  wss.on("connection", (ws) => {
-    console.log("WebSocket client connected");
-    ws.send(JSON.stringify({ type: "initial", data: aggregateSentiment() }));
-    ws.on("close", () => console.log("WebSocket client disconnected"));
+    ws.on("pong", () => (state.alive = true));
+    ws.on("message", (raw) => {
+      state.alive = true;
+      handleMessage(ws, state, raw).catch((error) => {
+        console.error("WebSocket message failed:", error);
+        send(ws, { type: "error", message: "Request failed" });
+      });
+    });
+    ws.on("close", () => {
+      clients.delete(ws);
+      console.log("WebSocket client disconnected");
+    });
+    ws.on("error", (error) => console.error("WebSocket error:", error));
+
+    send(ws, { type: "welcome", heartbeatMs: HEARTBEAT_MS });
   });
 
+  const heartbeat = setInterval(() => {
+    clients.forEach((state, ws) => {
+      if (!state.alive) {
+        clients.delete(ws);
+        ws.terminate();
+        return;
+      }
+      state.alive = false;
+      ws.ping();
+    });
+  }, HEARTBEAT_MS);
+  wss.on("close", () => clearInterval(heartbeat));
+
   return wss;
 }
 
-export function broadcastSentiment(wss: WebSocketServer): void {
-  const aggregatedData = aggregateSentiment();
-  wss.clients.forEach((client) => {
-    if (client.readyState === WebSocket.OPEN) {
-      client.send(JSON.stringify({ type: "update", data: aggregatedData }));
-    }
+// Send each subscriber the buckets of its topic that changed since the last delta
+export function broadcastSentiment(): void {
+  const changed = new Map(dirtyEvents);
+  dirtyEvents.clear();
+  const ts = Date.now();
+
+  clients.forEach((state, ws) => {
+    state.subscriptions.forEach((topic, key) => {
+      const since = changed.get(topic.eventId);
+      if (since === undefined) return;
+      const data = aggregateSentiment({ ...topic, since });
+      if (data.length) send(ws, { type: "delta", topic: key, data, ts });
+    });
   });
-}
\ No newline at end of file
+}
+
+export function publishSentiment(items: SentimentData[]): void {
+  items.forEach(({ eventId, timestamp }) => {
+    const minute = minuteFloor(timestamp);
+    dirtyEvents.set(eventId, Math.min(dirtyEvents.get(eventId) ?? minute, minute));
+  });
+
+  if (broadcastTimer) return;
+  broadcastTimer = setTimeout(() => {
+    broadcastTimer = null;
+    broadcastSentiment();
+  }, BROADCAST_INTERVAL_MS);
+}
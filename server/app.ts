@@ -15,6 +15,14 @@ import feedbackRouter from './routes/feedback.route';
 import shortFeedbackRouter from './routes/shortFeedback.route';
 import geminiRouter from './routes/gemini.route';
 import aiChatRouter from './routes/aichat.route';
+import alertRouter from './routes/alert.route';
+import notificationRouter from './routes/notification.route';
+import webhookRouter from './routes/webhook.route';
+import keywordRouter from './routes/keyword.route';
+import sentimentShiftRouter from './routes/sentimentShift.route';
+import analysisRouter from './routes/analysis.route';
+import sentimentRouter from './routes/sentiment.route';
+import piiRouter from './routes/pii.route';
 app.use(express.json({ limit: "50mb" }));
 
 app.use((req, res, next) => {
@@ -57,6 +65,14 @@ app.use('/api/v1/feedback', feedbackRouter);
 app.use('/api/v1/short-feedback', shortFeedbackRouter);
 app.use('/api/v1/gemini', geminiRouter);
 app.use('/api/v1/ai-chat', aiChatRouter);
+app.use('/api/v1/alerts', alertRouter);
+app.use('/api/v1/notifications', notificationRouter);
+app.use('/api/v1/webhooks', webhookRouter);
+app.use('/api/v1/keywords', keywordRouter);
+app.use('/api/v1/sentiment-shifts', sentimentShiftRouter);
+app.use('/api/v1/analysis', analysisRouter);
+app.use('/api/v1/sentiment', sentimentRouter);
+app.use('/api/v1/pii', piiRouter);
 
 //google auth route
 app.get(
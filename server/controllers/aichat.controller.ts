@@ -4,6 +4,7 @@ import { Request, Response } from 'express'
 import { GoogleGenerativeAI } from '@google/generative-ai'
 import { CatchAsyncError } from '../middleware/CatchAsyncError'
 import ErrorHandler from '../utils/ErrorHandler'
+import { redactText } from '../services/pii.service'
 
 // Initialize Gemini with API key
 const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '')
@@ -14,6 +15,9 @@ if (!process.env.GEMINI_API_KEY) {
   console.error('GEMINI_API_KEY is not set in environment variables')
 }
 
+// Attendee text can carry emails, phone numbers and names; none of it is sent to the model
+const redactPrompt = async (prompt: string) => (await redactText(prompt)).text
+
 // Generate proactive response for negative feedback
 export const generateProactiveResponse = CatchAsyncError(async (req: Request, res: Response) => {
   // Verify API key before making the request
@@ -46,7 +50,7 @@ export const generateProactiveResponse = CatchAsyncError(async (req: Request, re
   `
 
   try {
-    const result = await model.generateContent(prompt)
+    const result = await model.generateContent(await redactPrompt(prompt))
     const response = await result.response
     const text = response.text()
 
@@ -85,7 +89,7 @@ export const generateEventSuggestions = CatchAsyncError(async (req: Request, res
     - implementation: How to implement it
   `
 
-  const result = await model.generateContent(prompt)
+  const result = await model.generateContent(await redactPrompt(prompt))
   const response = await result.response
   const text = response.text()
 
@@ -119,7 +123,7 @@ export const generateEventInsights = CatchAsyncError(async (req: Request, res: R
     - sentiment_summary: Overall attendee sentiment analysis
   `
 
-  const result = await model.generateContent(prompt)
+  const result = await model.generateContent(await redactPrompt(prompt))
   const response = await result.response
   const text = response.text()
 
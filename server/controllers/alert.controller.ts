@@ -0,0 +1,169 @@
+import { Request, Response, NextFunction } from 'express';
+import { Types } from 'mongoose';
+import Alert from '../models/alert.model';
+import { CatchAsyncError } from '../middleware/CatchAsyncError';
+import ErrorHandler from '../utils/ErrorHandler';
+
+const DEFAULT_SNOOZE_MINUTES = 15;
+
+const findAlert = (id: string) =>
+  Alert.findById(id)
+    .populate('event', 'name')
+    .populate('acknowledgedBy', 'name email')
+    .populate('snoozedBy', 'name email')
+    .populate('resolvedBy', 'name email')
+    .populate('notes.user', 'name');
+
+// Get all alerts with filters
+export const getAllAlerts = CatchAsyncError(async (req: Request, res: Response) => {
+  const { event, status, severity, trigger } = req.query;
+  const filter: any = {};
+
+  if (event) filter.event = event;
+  if (status) filter.status = status;
+  if (severity) filter.severity = severity;
+  if (trigger) filter.trigger = trigger;
+
+  const alerts = await Alert.find(filter)
+    .populate('event', 'name')
+    .populate('acknowledgedBy', 'name email')
+    .populate('resolvedBy', 'name email')
+    .sort({ createdAt: -1 });
+
+  res.status(200).json({
+    success: true,
+    alerts,
+  });
+});
+
+// Get alert by ID
+export const getAlertById = CatchAsyncError(async (req: Request, res: Response, next: NextFunction) => {
+  const alert = await findAlert(req.params.id);
+
+  if (!alert) {
+    return next(new ErrorHandler('Alert not found', 404));
+  }
+
+  res.status(200).json({
+    success: true,
+    alert,
+  });
+});
+
+// Acknowledge an alert
+export const acknowledgeAlert = CatchAsyncError(async (req: Request, res: Response, next: NextFunction) => {
+  const alert = await Alert.findById(req.params.id);
+
+  if (!alert) {
+    return next(new ErrorHandler('Alert not found', 404));
+  }
+
+  if (alert.status === 'resolved') {
+    return next(new ErrorHandler('Alert is already resolved', 400));
+  }
+
+  alert.status = 'acknowledged';
+  alert.acknowledgedBy = req.user?._id as Types.ObjectId;
+  alert.acknowledgedAt = new Date();
+  alert.snoozedUntil = undefined;
+
+  await alert.save();
+
+  res.status(200).json({
+    success: true,
+    message: 'Alert acknowledged successfully',
+    alert,
+  });
+});
+
+// Snooze an alert for a number of minutes
+export const snoozeAlert = CatchAsyncError(async (req: Request, res: Response, next: NextFunction) => {
+  const minutes = Number(req.body.minutes ?? DEFAULT_SNOOZE_MINUTES);
+
+  if (isNaN(minutes) || minutes <= 0) {
+    return next(new ErrorHandler('Snooze minutes must be a positive number', 400));
+  }
+
+  const alert = await Alert.findById(req.params.id);
+
+  if (!alert) {
+    return next(new ErrorHandler('Alert not found', 404));
+  }
+
+  if (alert.status === 'resolved') {
+    return next(new ErrorHandler('Alert is already resolved', 400));
+  }
+
+  alert.status = 'snoozed';
+  alert.snoozedBy = req.user?._id as Types.ObjectId;
+  alert.snoozedUntil = new Date(Date.now() + minutes * 60 * 1000);
+
+  await alert.save();
+
+  res.status(200).json({
+    success: true,
+    message: `Alert snoozed for ${minutes} minutes`,
+    alert,
+  });
+});
+
+// Resolve an alert
+export const resolveAlert = CatchAsyncError(async (req: Request, res: Response, next: NextFunction) => {
+  const { resolution } = req.body;
+  const alert = await Alert.findById(req.params.id);
+
+  if (!alert) {
+    return next(new ErrorHandler('Alert not found', 404));
+  }
+
+  if (alert.status === 'resolved') {
+    return next(new ErrorHandler('Alert is already resolved', 400));
+  }
+
+  alert.status = 'resolved';
+  alert.resolvedBy = req.user?._id as Types.ObjectId;
+  alert.resolvedAt = new Date();
+  alert.snoozedUntil = undefined;
+  if (resolution) alert.resolution = resolution;
+
+  await alert.save();
+
+  res.status(200).json({
+    success: true,
+    message: 'Alert resolved successfully',
+    alert,
+  });
+});
+
+// Add a note to an alert
+export const addAlertNote = CatchAsyncError(async (req: Request, res: Response, next: NextFunction) => {
+  const { text } = req.body;
+
+  if (!text) {
+    return next(new ErrorHandler('Note text is required', 400));
+  }
+
+  const alert = await Alert.findById(req.params.id);
+
+  if (!alert) {
+    return next(new ErrorHandler('Alert not found', 404));
+  }
+
+  if (!req.user?._id) {
+    return next(new ErrorHandler('User not authenticated', 401));
+  }
+
+  alert.notes.push({
+    user: req.user._id as Types.ObjectId,
+    text,
+    createdAt: new Date(),
+  });
+
+  await alert.save();
+
+  res.status(200).json({
+    success: true,
+    message: 'Note added successfully',
+    alert,
+  });
+});
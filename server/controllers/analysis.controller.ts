@@ -0,0 +1,31 @@
+import { Request, Response, NextFunction } from 'express';
+import { Types } from 'mongoose';
+import Event from '../models/event.model';
+import { CatchAsyncError } from '../middleware/CatchAsyncError';
+import ErrorHandler from '../utils/ErrorHandler';
+import { getEventAnalysisStatus } from '../services/analysisScheduler.service';
+
+// Get last and next analysis run of one event, or of every live event
+export const getAnalysisStatus = CatchAsyncError(async (req: Request, res: Response, next: NextFunction) => {
+  const { event } = req.query;
+  const now = new Date();
+
+  if (event && !Types.ObjectId.isValid(String(event))) {
+    return next(new ErrorHandler('Invalid event ID', 400));
+  }
+
+  const events = event
+    ? await Event.find({ _id: event })
+    : await Event.find({ startDate: { $lte: now }, endDate: { $gte: now } });
+
+  if (event && !events.length) {
+    return next(new ErrorHandler('Event not found', 404));
+  }
+
+  const statuses = await Promise.all(events.map((item) => getEventAnalysisStatus(item, now)));
+
+  res.status(200).json({
+    success: true,
+    statuses,
+  });
+});
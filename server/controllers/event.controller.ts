@@ -195,7 +195,11 @@ class EventController {
 
         // Step 5: Notification Methods and Recipients
         notificationMethods,
-        alertRecipients
+        alertRecipients,
+        escalationPolicy,
+
+        // Short feedback emoji overrides
+        emojiValences
       } = req.body;
 
       // Validate required fields
@@ -220,7 +224,9 @@ class EventController {
         keywordsMonitoring,
         alertSeverity,
         notificationMethods,
-        alertRecipients
+        alertRecipients,
+        escalationPolicy,
+        emojiValences
       });
 
       // Validate notification methods
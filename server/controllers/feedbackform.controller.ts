@@ -4,6 +4,10 @@ import { Types } from 'mongoose';
 import Feedback, { UserFeedback, IFeedback } from '../models/feedback.model';
 import { CatchAsyncError } from '../middleware/CatchAsyncError';
 import ErrorHandler from '../utils/ErrorHandler';
+import { scheduleEvaluation } from '../services/alertEngine.service';
+import { trackKeywords } from '../services/keyword.service';
+import { feedbackToSignal } from '../services/signal.service';
+import { queueSentimentScoring } from '../services/sentiment.service';
 
 // Get feedback form by eventId (public access)
 export const getFeedbackForm = CatchAsyncError(async (req: Request, res: Response, next: NextFunction) => {
@@ -89,6 +93,10 @@ export const submitFeedbackResponse = CatchAsyncError(async (req: Request, res:
 
   const newFeedback = await UserFeedback.create(feedbackData);
 
+  scheduleEvaluation(String(newFeedback.eventId));
+  trackKeywords(String(newFeedback.eventId), feedbackToSignal(newFeedback));
+  queueSentimentScoring('feedback', String(newFeedback._id));
+
   res.status(201).json({
     success: true,
     message: 'Feedback submitted successfully',
@@ -3,6 +3,10 @@ import { Types } from 'mongoose';
 import Issue, { IIssue } from '../models/issue.model';
 import { CatchAsyncError } from '../middleware/CatchAsyncError';
 import ErrorHandler from '../utils/ErrorHandler';
+import { scheduleEvaluation } from '../services/alertEngine.service';
+import { trackKeywords } from '../services/keyword.service';
+import { issueToSignal } from '../services/signal.service';
+import { queueSentimentScoring } from '../services/sentiment.service';
 
 // Create a new issue
 export const createIssue = CatchAsyncError(async (req: Request, res: Response) => {
@@ -11,6 +15,10 @@ export const createIssue = CatchAsyncError(async (req: Request, res: Response) =
     reportedBy: req.user?._id,
   });
 
+  scheduleEvaluation(String(issue.event));
+  trackKeywords(String(issue.event), issueToSignal(issue));
+  queueSentimentScoring('issue', String(issue._id));
+
   res.status(201).json({
     success: true,
     message: 'Issue created successfully',
@@ -81,7 +89,10 @@ export const updateIssue = CatchAsyncError(async (req: Request, res: Response, n
     issue.resolvedAt = new Date();
   }
 
+  // The stored sentiment was scored from the title and description
+  const textChanged = issue.isModified('title') || issue.isModified('description');
   await issue.save();
+  if (textChanged) queueSentimentScoring('issue', String(issue._id), false);
 
   res.status(200).json({
     success: true,
@@ -0,0 +1,67 @@
+import { Request, Response, NextFunction } from 'express';
+import { Types } from 'mongoose';
+import { CatchAsyncError } from '../middleware/CatchAsyncError';
+import ErrorHandler from '../utils/ErrorHandler';
+import { getKeywordTimeline, KeywordCategory, KEYWORD_CATEGORIES } from '../services/keyword.service';
+import { detectTrendSpikes, MAX_TREND_BASELINE, MAX_TREND_WINDOW } from '../services/trend.service';
+
+const DEFAULT_RANGE_MS = 24 * 60 * 60 * 1000;
+
+// Get per-keyword hit counts of an event over time
+export const getEventKeywordHits = CatchAsyncError(async (req: Request, res: Response, next: NextFunction) => {
+  const { eventId } = req.params;
+  const category = req.query.category as KeywordCategory | undefined;
+
+  if (!Types.ObjectId.isValid(eventId)) {
+    return next(new ErrorHandler('Invalid event ID', 400));
+  }
+
+  if (category && !KEYWORD_CATEGORIES.includes(category)) {
+    return next(new ErrorHandler('Category must be experience or technical', 400));
+  }
+
+  const to = req.query.to ? new Date(String(req.query.to)) : new Date();
+  const from = req.query.from ? new Date(String(req.query.from)) : new Date(to.getTime() - DEFAULT_RANGE_MS);
+
+  if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+    return next(new ErrorHandler('Invalid date range', 400));
+  }
+
+  const keywords = await getKeywordTimeline(eventId, from, to, category);
+
+  res.status(200).json({
+    success: true,
+    from,
+    to,
+    keywords,
+  });
+});
+
+// Get trending terms of an event with spikes against the recent baseline
+export const getEventKeywordTrends = CatchAsyncError(async (req: Request, res: Response, next: NextFunction) => {
+  const { eventId } = req.params;
+
+  if (!Types.ObjectId.isValid(eventId)) {
+    return next(new ErrorHandler('Invalid event ID', 400));
+  }
+
+  const requestedWindow = Number(req.query.window || 15);
+  const requestedBaseline = Number(req.query.baseline || 120);
+
+  if (!(requestedWindow > 0) || !(requestedBaseline > 0)) {
+    return next(new ErrorHandler('Window and baseline must be positive numbers of minutes', 400));
+  }
+
+  // Longer ranges are clamped; the response reports the minutes actually used
+  const windowMinutes = Math.min(requestedWindow, MAX_TREND_WINDOW / 60000);
+  const baselineMinutes = Math.min(requestedBaseline, MAX_TREND_BASELINE / 60000);
+
+  const trends = await detectTrendSpikes(eventId, new Date(), windowMinutes * 60 * 1000, baselineMinutes * 60 * 1000);
+
+  res.status(200).json({
+    success: true,
+    window: windowMinutes,
+    baseline: baselineMinutes,
+    trends,
+  });
+});
@@ -0,0 +1,53 @@
+import { Request, Response, NextFunction } from 'express';
+import PushSubscription from '../models/pushSubscription.model';
+import { CatchAsyncError } from '../middleware/CatchAsyncError';
+import ErrorHandler from '../utils/ErrorHandler';
+
+// Public VAPID key the browser needs to create a push subscription
+export const getVapidPublicKey = CatchAsyncError(async (req: Request, res: Response, next: NextFunction) => {
+  if (!process.env.VAPID_PUBLIC_KEY) {
+    return next(new ErrorHandler('Push notifications are not configured', 500));
+  }
+
+  res.status(200).json({
+    success: true,
+    publicKey: process.env.VAPID_PUBLIC_KEY,
+  });
+});
+
+// Save the current user's browser push subscription
+export const subscribePush = CatchAsyncError(async (req: Request, res: Response, next: NextFunction) => {
+  const { endpoint, keys } = req.body;
+
+  if (!endpoint || !keys?.p256dh || !keys?.auth) {
+    return next(new ErrorHandler('A valid push subscription is required', 400));
+  }
+
+  const subscription = await PushSubscription.findOneAndUpdate(
+    { endpoint },
+    { user: req.user?._id, endpoint, keys },
+    { upsert: true, new: true, runValidators: true }
+  );
+
+  res.status(201).json({
+    success: true,
+    message: 'Push subscription saved successfully',
+    subscription,
+  });
+});
+
+// Remove a browser push subscription
+export const unsubscribePush = CatchAsyncError(async (req: Request, res: Response, next: NextFunction) => {
+  const { endpoint } = req.body;
+
+  if (!endpoint) {
+    return next(new ErrorHandler('Subscription endpoint is required', 400));
+  }
+
+  await PushSubscription.deleteOne({ endpoint, user: req.user?._id });
+
+  res.status(200).json({
+    success: true,
+    message: 'Push subscription removed successfully',
+  });
+});
@@ -0,0 +1,39 @@
+import { Request, Response, NextFunction } from 'express';
+import { Types } from 'mongoose';
+import { CatchAsyncError } from '../middleware/CatchAsyncError';
+import ErrorHandler from '../utils/ErrorHandler';
+import { PIISource, PII_SOURCES } from '../models/piiVault.model';
+import { getOriginalTexts } from '../services/pii.service';
+import { isEncryptionConfigured } from '../utils/encryption';
+
+// Get the original, unredacted texts of a feedback, short feedback or issue
+export const getOriginalText = CatchAsyncError(async (req: Request, res: Response, next: NextFunction) => {
+  const { source, id } = req.params;
+
+  if (!PII_SOURCES.includes(source as PIISource)) {
+    return next(new ErrorHandler(`Source must be one of ${PII_SOURCES.join(', ')}`, 400));
+  }
+
+  if (!Types.ObjectId.isValid(id)) {
+    return next(new ErrorHandler('Invalid document ID', 400));
+  }
+
+  if (!isEncryptionConfigured()) {
+    return next(new ErrorHandler('Original texts are not kept: PII_ENCRYPTION_KEY is not set', 503));
+  }
+
+  const originals = await getOriginalTexts(source as PIISource, id);
+  if (!originals.length) {
+    return next(new ErrorHandler('No redacted text found for this document', 404));
+  }
+
+  // Every read of raw personal data is logged
+  console.info(`[pii] ${req.user?._id} read the original text of ${source} ${id}`);
+
+  res.status(200).json({
+    success: true,
+    source,
+    id,
+    originals,
+  });
+});
@@ -0,0 +1,47 @@
+import { Request, Response, NextFunction } from 'express';
+import { Types } from 'mongoose';
+import { CatchAsyncError } from '../middleware/CatchAsyncError';
+import ErrorHandler from '../utils/ErrorHandler';
+import { canManageEvent } from '../services/eventAccess.service';
+import {
+  getActiveModelVersion,
+  getSentimentQueueStatus,
+  rescoreEventSentiment as queueEventRescore,
+} from '../services/sentiment.service';
+
+// Get the scoring queue and circuit breaker state of the sentiment client
+export const getSentimentStatus = CatchAsyncError(async (req: Request, res: Response) => {
+  res.status(200).json({
+    success: true,
+    ...getSentimentQueueStatus(),
+  });
+});
+
+// Queue an event's documents for re-scoring after the sentiment model changed
+export const rescoreEventSentiment = CatchAsyncError(async (req: Request, res: Response, next: NextFunction) => {
+  const { eventId } = req.params;
+
+  if (!Types.ObjectId.isValid(eventId)) {
+    return next(new ErrorHandler('Invalid event ID', 400));
+  }
+
+  if (!(await canManageEvent(eventId, req.user))) {
+    return next(new ErrorHandler('You are not authorized to re-score this event', 403));
+  }
+
+  if (!getSentimentQueueStatus().enabled) {
+    return next(new ErrorHandler('Sentiment scoring is not configured', 503));
+  }
+
+  const modelVersion = req.body?.modelVersion || (await getActiveModelVersion());
+  if (!modelVersion || typeof modelVersion !== 'string') {
+    return next(new ErrorHandler('modelVersion is required when the active model version cannot be looked up', 400));
+  }
+
+  const result = await queueEventRescore(eventId, modelVersion);
+
+  res.status(202).json({
+    success: true,
+    ...result,
+  });
+});
@@ -0,0 +1,24 @@
+import { Request, Response } from 'express';
+import SentimentShift from '../models/sentimentShift.model';
+import { CatchAsyncError } from '../middleware/CatchAsyncError';
+
+const DEFAULT_RANGE_MS = 24 * 60 * 60 * 1000;
+
+// Get sentiment shifts with filters (event, zone, direction, from, to)
+export const getSentimentShifts = CatchAsyncError(async (req: Request, res: Response) => {
+  const { event, zone, direction } = req.query;
+  const to = req.query.to ? new Date(String(req.query.to)) : new Date();
+  const from = req.query.from ? new Date(String(req.query.from)) : new Date(to.getTime() - DEFAULT_RANGE_MS);
+  const filter: any = { createdAt: { $gte: from, $lte: to } };
+
+  if (event) filter.event = event;
+  if (zone) filter.zone = zone;
+  if (direction) filter.direction = direction;
+
+  const shifts = await SentimentShift.find(filter).populate('event', 'name').sort({ createdAt: 1 });
+
+  res.status(200).json({
+    success: true,
+    shifts,
+  });
+});
@@ -3,6 +3,16 @@ import { Types } from 'mongoose';
 import ShortFeedback from '../models/shortFeedback.model';
 import { CatchAsyncError } from '../middleware/CatchAsyncError';
 import ErrorHandler from '../utils/ErrorHandler';
+import { scheduleEvaluation } from '../services/alertEngine.service';
+import { trackKeywords } from '../services/keyword.service';
+import { getEventEmojiValences, shortFeedbackToSignal } from '../services/signal.service';
+import { queueSentimentScoring } from '../services/sentiment.service';
+import { getEmojiPulse } from '../services/emojiPulse.service';
+import { canViewEvent } from '../services/eventAccess.service';
+
+const DEFAULT_PULSE_RANGE_MS = 60 * 60 * 1000;
+// Each interval is one bucket per emoji in the aggregation
+const MAX_PULSE_BUCKETS = 1000;
 
 // Create a new short feedback
 export const createShortFeedback = CatchAsyncError(async (req: Request, res: Response) => {
@@ -11,6 +21,11 @@ export const createShortFeedback = CatchAsyncError(async (req: Request, res: Res
     submittedBy: req.user?._id,
   });
 
+  const valences = await getEventEmojiValences(String(shortFeedback.event));
+  scheduleEvaluation(String(shortFeedback.event));
+  trackKeywords(String(shortFeedback.event), shortFeedbackToSignal(shortFeedback, valences));
+  queueSentimentScoring('shortFeedback', String(shortFeedback._id));
+
   res.status(201).json({
     success: true,
     message: 'Short feedback created successfully',
@@ -73,7 +88,10 @@ export const updateShortFeedback = CatchAsyncError(async (req: Request, res: Res
     }
   });
 
+  // The stored sentiment was scored from the emoji and description
+  const scoredChanged = shortFeedback.isModified('emoji') || shortFeedback.isModified('description');
   await shortFeedback.save();
+  if (scoredChanged) queueSentimentScoring('shortFeedback', String(shortFeedback._id), false);
 
   res.status(200).json({
     success: true,
@@ -146,4 +164,44 @@ export const getShortFeedbackByEmoji = CatchAsyncError(async (req: Request, res:
     success: true,
     shortFeedback,
   });
-}); 
\ No newline at end of file
+});
+
+// Get the emoji pulse of an event: reaction distribution and per-interval counts, last hour by default
+export const getEventEmojiPulse = CatchAsyncError(async (req: Request, res: Response, next: NextFunction) => {
+  const { eventId } = req.params;
+  const zone = req.query.zone ? String(req.query.zone) : undefined;
+
+  if (!Types.ObjectId.isValid(eventId)) {
+    return next(new ErrorHandler('Invalid event ID', 400));
+  }
+
+  if (!(await canViewEvent(eventId, req.user))) {
+    return next(new ErrorHandler('You are not authorized to view this event', 403));
+  }
+
+  const interval = Number(req.query.interval || 5);
+  if (!(interval > 0)) {
+    return next(new ErrorHandler('Interval must be a positive number of minutes', 400));
+  }
+
+  const to = req.query.to ? new Date(String(req.query.to)) : new Date();
+  const from = req.query.from ? new Date(String(req.query.from)) : new Date(to.getTime() - DEFAULT_PULSE_RANGE_MS);
+
+  if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+    return next(new ErrorHandler('Invalid date range', 400));
+  }
+
+  if ((to.getTime() - from.getTime()) / (Math.ceil(interval) * 60000) > MAX_PULSE_BUCKETS) {
+    return next(new ErrorHandler(`At most ${MAX_PULSE_BUCKETS} intervals per request; widen the interval`, 400));
+  }
+
+  const pulse = await getEmojiPulse(eventId, from, to, Math.ceil(interval), zone);
+
+  res.status(200).json({
+    success: true,
+    from,
+    to,
+    interval: Math.ceil(interval),
+    ...pulse,
+  });
+});
@@ -0,0 +1,166 @@
+import { Request, Response, NextFunction } from 'express';
+import { Types } from 'mongoose';
+import Webhook, { IWebhook } from '../models/webhook.model';
+import WebhookDelivery from '../models/webhookDelivery.model';
+import { CatchAsyncError } from '../middleware/CatchAsyncError';
+import ErrorHandler from '../utils/ErrorHandler';
+import { generateWebhookSecret, sendTestEvent } from '../services/webhook.service';
+import { canManageEvent } from '../services/eventAccess.service';
+import { checkPublicUrl } from '../utils/publicUrl';
+
+// Load a webhook the signed-in user may manage, or pass the matching error on
+const findOwnWebhook = async (req: Request, next: NextFunction): Promise<IWebhook | undefined> => {
+  if (!Types.ObjectId.isValid(req.params.id)) {
+    next(new ErrorHandler('Invalid webhook ID', 400));
+    return;
+  }
+
+  const webhook = await Webhook.findById(req.params.id);
+  if (!webhook) {
+    next(new ErrorHandler('Webhook not found', 404));
+    return;
+  }
+  if (!(await canManageEvent(webhook.event, req.user))) {
+    next(new ErrorHandler('You are not authorized to manage webhooks of this event', 403));
+    return;
+  }
+  return webhook;
+};
+
+// Create a webhook endpoint for an event
+export const createWebhook = CatchAsyncError(async (req: Request, res: Response, next: NextFunction) => {
+  const { event, url, description } = req.body;
+
+  if (!event || !Types.ObjectId.isValid(event)) {
+    return next(new ErrorHandler('Valid event is required', 400));
+  }
+
+  if (!(await canManageEvent(event, req.user))) {
+    return next(new ErrorHandler('You are not authorized to manage webhooks of this event', 403));
+  }
+
+  const blocked = typeof url === 'string' ? await checkPublicUrl(url) : 'Webhook URL is required';
+  if (blocked) {
+    return next(new ErrorHandler(blocked, 400));
+  }
+
+  const secret = generateWebhookSecret();
+  const webhook = await Webhook.create({
+    event,
+    url,
+    description,
+    secret,
+    createdBy: req.user?._id,
+  });
+
+  res.status(201).json({
+    success: true,
+    message: 'Webhook created successfully',
+    webhook: { ...webhook.toObject(), secret },
+  });
+});
+
+// Get all webhooks of an event
+export const getEventWebhooks = CatchAsyncError(async (req: Request, res: Response, next: NextFunction) => {
+  const { eventId } = req.params;
+
+  if (!Types.ObjectId.isValid(eventId)) {
+    return next(new ErrorHandler('Invalid event ID', 400));
+  }
+
+  if (!(await canManageEvent(eventId, req.user))) {
+    return next(new ErrorHandler('You are not authorized to manage webhooks of this event', 403));
+  }
+
+  const webhooks = await Webhook.find({ event: eventId }).sort({ createdAt: -1 });
+
+  res.status(200).json({
+    success: true,
+    webhooks,
+  });
+});
+
+// Update webhook URL, description or enabled flag
+export const updateWebhook = CatchAsyncError(async (req: Request, res: Response, next: NextFunction) => {
+  const webhook = await findOwnWebhook(req, next);
+  if (!webhook) return;
+
+  const { url, description, enabled } = req.body;
+  if (url !== undefined) {
+    const blocked = typeof url === 'string' ? await checkPublicUrl(url) : 'Please enter a valid http(s) URL';
+    if (blocked) {
+      return next(new ErrorHandler(blocked, 400));
+    }
+    webhook.url = url;
+  }
+  if (description !== undefined) webhook.description = description;
+  if (enabled !== undefined) webhook.enabled = enabled;
+
+  await webhook.save();
+
+  res.status(200).json({
+    success: true,
+    message: 'Webhook updated successfully',
+    webhook,
+  });
+});
+
+// Replace the signing secret of a webhook
+export const rotateWebhookSecret = CatchAsyncError(async (req: Request, res: Response, next: NextFunction) => {
+  const webhook = await findOwnWebhook(req, next);
+  if (!webhook) return;
+
+  const secret = generateWebhookSecret();
+  webhook.secret = secret;
+  await webhook.save();
+
+  res.status(200).json({
+    success: true,
+    message: 'Webhook secret rotated successfully',
+    secret,
+  });
+});
+
+// Delete a webhook
+export const deleteWebhook = CatchAsyncError(async (req: Request, res: Response, next: NextFunction) => {
+  const webhook = await findOwnWebhook(req, next);
+  if (!webhook) return;
+
+  await webhook.deleteOne();
+
+  res.status(200).json({
+    success: true,
+    message: 'Webhook deleted successfully',
+  });
+});
+
+// Send a test event to a webhook
+export const testWebhook = CatchAsyncError(async (req: Request, res: Response, next: NextFunction) => {
+  const webhook = await findOwnWebhook(req, next);
+  if (!webhook) return;
+
+  const delivery = await sendTestEvent(webhook);
+
+  res.status(200).json({
+    success: delivery.status === 'succeeded',
+    message: delivery.status === 'succeeded' ? 'Test event delivered' : 'Test event delivery failed',
+    delivery,
+  });
+});
+
+// Get the delivery log of a webhook
+export const getWebhookDeliveries = CatchAsyncError(async (req: Request, res: Response, next: NextFunction) => {
+  const webhook = await findOwnWebhook(req, next);
+  if (!webhook) return;
+
+  // Response bodies of older deliveries are never shown
+  const deliveries = await WebhookDelivery.find({ webhook: webhook._id })
+    .select('-payload -attempts.responseBody')
+    .sort({ createdAt: -1 })
+    .limit(Number(req.query.limit) || 50);
+
+  res.status(200).json({
+    success: true,
+    deliveries,
+  });
+});
@@ -0,0 +1,211 @@
+import { Schema, model, Document, Types } from 'mongoose';
+
+// Interface for the input that caused an alert
+interface IEvidence {
+  source: 'feedback' | 'shortFeedback' | 'issue';
+  id: Types.ObjectId;
+  text?: string;
+}
+
+// Interface for a delivery attempt of the alert
+interface INotificationLog {
+  channel: 'email' | 'sms' | 'push';
+  recipient: string;
+  transport: string;
+  status: 'sent' | 'failed';
+  error?: string;
+  escalationLevel?: number;
+  digest?: boolean;
+  sentAt: Date;
+}
+
+// Interface for one step up the escalation chain
+interface IEscalationStep {
+  level: number;
+  recipients: string[];
+  escalatedAt: Date;
+}
+
+// Main alert interface
+export interface IAlert extends Document {
+  event: Types.ObjectId;
+  severity: 'critical' | 'warning' | 'info';
+  trigger: 'technical_issue' | 'negative_50' | 'negative_40' | 'negative_30' | 'shift_10' | 'alert_threshold';
+  message: string;
+  evidence: IEvidence[];
+  metrics: {
+    total: number;
+    negativePercent: number;
+    previousNegativePercent?: number;
+  };
+  status: 'open' | 'acknowledged' | 'snoozed' | 'resolved';
+  acknowledgedBy?: Types.ObjectId;
+  acknowledgedAt?: Date;
+  snoozedBy?: Types.ObjectId;
+  snoozedUntil?: Date;
+  resolvedBy?: Types.ObjectId;
+  resolvedAt?: Date;
+  resolution?: string;
+  notes: {
+    user: Types.ObjectId;
+    text: string;
+    createdAt: Date;
+  }[];
+  notifications: INotificationLog[];
+  escalation: {
+    level: number;
+    nextAt?: Date;
+    history: IEscalationStep[];
+  };
+  digest?: {
+    queuedAt: Date;
+    sentAt?: Date;
+  };
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Alert schema
+const AlertSchema = new Schema<IAlert>(
+  {
+    event: {
+      type: Schema.Types.ObjectId,
+      ref: 'Event',
+      required: [true, 'Event is required'],
+    },
+    severity: {
+      type: String,
+      enum: ['critical', 'warning', 'info'],
+      required: [true, 'Alert severity is required'],
+    },
+    trigger: {
+      type: String,
+      enum: ['technical_issue', 'negative_50', 'negative_40', 'negative_30', 'shift_10', 'alert_threshold'],
+      required: [true, 'Alert trigger is required'],
+    },
+    message: {
+      type: String,
+      required: [true, 'Alert message is required'],
+    },
+    evidence: [
+      {
+        source: {
+          type: String,
+          enum: ['feedback', 'shortFeedback', 'issue'],
+          required: true,
+        },
+        id: {
+          type: Schema.Types.ObjectId,
+          required: true,
+        },
+        text: String,
+      },
+    ],
+    metrics: {
+      total: { type: Number, default: 0 },
+      negativePercent: { type: Number, default: 0 },
+      previousNegativePercent: Number,
+    },
+    status: {
+      type: String,
+      enum: ['open', 'acknowledged', 'snoozed', 'resolved'],
+      default: 'open',
+    },
+    acknowledgedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    acknowledgedAt: Date,
+    snoozedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    snoozedUntil: Date,
+    resolvedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    resolvedAt: Date,
+    resolution: String,
+    notes: [
+      {
+        user: {
+          type: Schema.Types.ObjectId,
+          ref: 'User',
+          required: true,
+        },
+        text: {
+          type: String,
+          required: true,
+        },
+        createdAt: {
+          type: Date,
+          default: Date.now,
+        },
+      },
+    ],
+    notifications: [
+      {
+        channel: {
+          type: String,
+          enum: ['email', 'sms', 'push'],
+          required: true,
+        },
+        recipient: {
+          type: String,
+          required: true,
+        },
+        transport: String,
+        status: {
+          type: String,
+          enum: ['sent', 'failed'],
+          required: true,
+        },
+        error: String,
+        escalationLevel: Number,
+        digest: Boolean,
+        sentAt: {
+          type: Date,
+          default: Date.now,
+        },
+      },
+    ],
+    escalation: {
+      level: {
+        type: Number,
+        default: 0,
+      },
+      nextAt: Date,
+      history: [
+        {
+          level: {
+            type: Number,
+            required: true,
+          },
+          recipients: [String],
+          escalatedAt: {
+            type: Date,
+            default: Date.now,
+          },
+        },
+      ],
+    },
+    digest: {
+      queuedAt: Date,
+      sentAt: Date,
+    },
+  },
+  { timestamps: true }
+);
+
+// Create indexes for better query performance
+AlertSchema.index({ event: 1, createdAt: -1 });
+AlertSchema.index({ status: 1 });
+AlertSchema.index({ severity: 1 });
+AlertSchema.index({ status: 1, snoozedUntil: 1 });
+AlertSchema.index({ status: 1, 'escalation.nextAt': 1 });
+AlertSchema.index({ 'digest.queuedAt': 1, 'digest.sentAt': 1 });
+
+const Alert = model<IAlert>('Alert', AlertSchema);
+
+export default Alert;
@@ -14,18 +14,18 @@ interface IIssue {
   reportedAt: Date;
 }
 
-interface ILocation {
+export interface ILocation {
   name: string;
   coordinates: ICoordinates;
   issues: IIssue[];
 }
 
-interface IFloor {
+export interface IFloor {
   name: string;
   locations: ILocation[];
 }
 
-interface IEventDetail extends Document {
+export interface IEventDetail extends Document {
   eventId: Types.ObjectId;
   name: string;
   address: string;
@@ -1,6 +1,6 @@
 import { Schema, model, Document, Types } from 'mongoose';
 
-interface IEvent extends Document {
+export interface IEvent extends Document {
   clientId: Types.ObjectId;
   // Step 1: General Information
   name: string;
@@ -21,6 +21,8 @@ interface IEvent extends Document {
     alertMethods: string[];
     alertMessage: string;
   };
+  // Valence (-1..1) of short feedback reaction emoji, overriding the defaults
+  emojiValences?: Map<string, number>;
 
   // Step 3: Keywords Monitoring
   keywordsMonitoring: {
@@ -79,6 +81,12 @@ interface IEvent extends Document {
     isPrimary: boolean;
   }>;
 
+  // Escalation of unacknowledged critical alerts along the recipients list
+  escalationPolicy: {
+    enabled: boolean;
+    acknowledgeWindow: string;
+  };
+
   createdAt: Date;
   updatedAt: Date;
 }
@@ -166,6 +174,14 @@ const EventSchema = new Schema<IEvent>(
         required: true,
       },
     },
+    emojiValences: {
+      type: Map,
+      of: {
+        type: Number,
+        min: -1,
+        max: 1,
+      },
+    },
 
     // Step 3: Keywords Monitoring
     keywordsMonitoring: {
@@ -325,6 +341,19 @@ const EventSchema = new Schema<IEvent>(
         default: false,
       },
     }],
+
+    // Escalation Policy
+    escalationPolicy: {
+      enabled: {
+        type: Boolean,
+        default: false,
+      },
+      acknowledgeWindow: {
+        type: String,
+        enum: ['5min', '15min', '30min', '1hour'],
+        default: '15min',
+      },
+    },
   },
   {
     timestamps: true,
@@ -1,4 +1,7 @@
 import { Schema, model, Document, Types } from 'mongoose';
+import { ISentimentScore, SentimentScoreSchema } from './sentiment.schema';
+import { PIIType } from '../utils/piiDetector';
+import { piiRedactionPlugin } from '../services/pii.service';
 
 interface IFormField {
   id: string;
@@ -15,13 +18,12 @@ export interface IFeedback extends Document {
   eventId: Types.ObjectId;
   submittedBy: Types.ObjectId;
   isAnonymous: boolean;
-  formFields: {
-    [key: string]: {
-      value: any;
-      field: IFormField;
-    };
-  };
+  formFields: Map<string, { value: any; field: IFormField }>;
   status: 'draft' | 'submitted';
+  // Sentiment of the text answers; only set on submitted responses
+  sentiment?: ISentimentScore;
+  // Kinds of personal data redacted from the text answers
+  piiTypes?: PIIType[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -70,16 +72,34 @@ const FeedbackSchema = new Schema<IFeedback>(
       enum: ['draft', 'submitted'],
       default: 'draft',
     },
+    sentiment: SentimentScoreSchema,
   },
   {
     timestamps: true,
   }
 );
 
+// Personal data in text answers is redacted before saving; originals go to the PII vault
+FeedbackSchema.plugin(piiRedactionPlugin, {
+  source: 'feedback',
+  event: (doc: IFeedback) => doc.eventId,
+  fields: (doc: IFeedback) => {
+    return [...doc.formFields.entries()]
+      .filter(([, { value, field }]) => field?.type === 'text' && typeof value === 'string')
+      .filter(([key]) => doc.isNew || doc.isModified(`formFields.${key}`))
+      .map(([key, entry]) => ({
+        field: `formFields/${key}`,
+        text: entry.value,
+        apply: (redacted: string) => (entry.value = redacted),
+      }));
+  },
+});
+
 // Create indexes for better query performance
 FeedbackSchema.index({ eventId: 1, sessionId: 1 });
 FeedbackSchema.index({ submittedBy: 1 });
 FeedbackSchema.index({ status: 1 });
+FeedbackSchema.index({ eventId: 1, 'sentiment.modelVersion': 1 });
 
 const Feedback = model<IFeedback>('Feedback', FeedbackSchema);
 
@@ -1,4 +1,7 @@
 import { Schema, model, Document, Types } from 'mongoose';
+import { ISentimentScore, SentimentScoreSchema } from './sentiment.schema';
+import { PIIType } from '../utils/piiDetector';
+import { modifiedTextFields, piiRedactionPlugin } from '../services/pii.service';
 
 // Interface for issue coordinates
 interface ICoordinates {
@@ -59,6 +62,9 @@ export interface IIssue extends Document {
   }[];
   resolution?: string;
   resolvedAt?: Date;
+  sentiment?: ISentimentScore;
+  // Kinds of personal data redacted from the title, description and comments
+  piiTypes?: PIIType[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -146,10 +152,27 @@ const IssueSchema = new Schema<IIssue>(
     ],
     resolution: String,
     resolvedAt: Date,
+    sentiment: SentimentScoreSchema,
   },
   { timestamps: true }
 );
 
+// Personal data is redacted before saving, in comments as they are added; originals go to the PII vault
+IssueSchema.plugin(piiRedactionPlugin, {
+  source: 'issue',
+  event: (doc: IIssue) => doc.event,
+  fields: (doc: IIssue) => [
+    ...modifiedTextFields(doc, ['title', 'description']),
+    ...(doc.comments as any[])
+      .filter((comment) => comment.isNew)
+      .map((comment) => ({
+        field: `comments/${comment._id}`,
+        text: comment.text,
+        apply: (redacted: string) => (comment.text = redacted),
+      })),
+  ],
+});
+
 // Create indexes for better query performance
 IssueSchema.index({ event: 1 });
 IssueSchema.index({ venue: 1 });
@@ -158,6 +181,7 @@ IssueSchema.index({ status: 1 });
 IssueSchema.index({ severity: 1 });
 IssueSchema.index({ category: 1 });
 IssueSchema.index({ createdAt: 1 });
+IssueSchema.index({ event: 1, 'sentiment.modelVersion': 1 });
 
 const Issue = model<IIssue>('Issue', IssueSchema);
 
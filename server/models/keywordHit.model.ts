@@ -0,0 +1,83 @@
+import { Schema, model, Document, Types } from 'mongoose';
+
+// Interface for a message that matched the keyword
+interface IKeywordExample {
+  source: 'feedback' | 'shortFeedback' | 'issue';
+  id: Types.ObjectId;
+  text: string;
+  createdAt: Date;
+}
+
+// Hits of one monitored keyword within one time bucket
+export interface IKeywordHit extends Document {
+  event: Types.ObjectId;
+  category: 'experience' | 'technical';
+  keyword: string;
+  bucket: Date;
+  count: number;
+  sources: {
+    feedback: number;
+    shortFeedback: number;
+    issue: number;
+  };
+  examples: IKeywordExample[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Keyword hit schema
+const KeywordHitSchema = new Schema<IKeywordHit>(
+  {
+    event: {
+      type: Schema.Types.ObjectId,
+      ref: 'Event',
+      required: [true, 'Event is required'],
+    },
+    category: {
+      type: String,
+      enum: ['experience', 'technical'],
+      required: [true, 'Keyword category is required'],
+    },
+    keyword: {
+      type: String,
+      required: [true, 'Keyword is required'],
+    },
+    bucket: {
+      type: Date,
+      required: [true, 'Bucket start is required'],
+    },
+    count: {
+      type: Number,
+      default: 0,
+    },
+    sources: {
+      feedback: { type: Number, default: 0 },
+      shortFeedback: { type: Number, default: 0 },
+      issue: { type: Number, default: 0 },
+    },
+    examples: [
+      {
+        source: {
+          type: String,
+          enum: ['feedback', 'shortFeedback', 'issue'],
+          required: true,
+        },
+        id: {
+          type: Schema.Types.ObjectId,
+          required: true,
+        },
+        text: String,
+        createdAt: Date,
+      },
+    ],
+  },
+  { timestamps: true }
+);
+
+// Create indexes for better query performance
+KeywordHitSchema.index({ event: 1, category: 1, keyword: 1, bucket: 1 }, { unique: true });
+KeywordHitSchema.index({ event: 1, bucket: -1 });
+
+const KeywordHit = model<IKeywordHit>('KeywordHit', KeywordHitSchema);
+
+export default KeywordHit;
@@ -0,0 +1,62 @@
+import { Schema, model, Document, Types } from 'mongoose';
+import { PIIType, PII_TYPES } from '../utils/piiDetector';
+
+export type PIISource = 'feedback' | 'shortFeedback' | 'issue';
+
+export const PII_SOURCES: PIISource[] = ['feedback', 'shortFeedback', 'issue'];
+
+// Interface for the original of one redacted text, kept apart from the document that serves the redacted one
+export interface IPIIVaultEntry extends Document {
+  source: PIISource;
+  document: Types.ObjectId;
+  // Which text of the document, e.g. 'description', 'formFields/<field id>' or 'comments/<comment id>'
+  field: string;
+  types: PIIType[];
+  // AES-256-GCM ciphertext of the original text
+  original: string;
+  // SHA-256 of the redacted text stored on the document, to recognise it when the document is saved again
+  redactedHash: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// PII vault schema
+const PIIVaultSchema = new Schema<IPIIVaultEntry>(
+  {
+    source: {
+      type: String,
+      enum: PII_SOURCES,
+      required: true,
+    },
+    document: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    field: {
+      type: String,
+      required: true,
+    },
+    types: [
+      {
+        type: String,
+        enum: PII_TYPES,
+      },
+    ],
+    original: {
+      type: String,
+      required: true,
+    },
+    redactedHash: {
+      type: String,
+      required: true,
+    },
+  },
+  { timestamps: true }
+);
+
+// Create indexes for better query performance
+PIIVaultSchema.index({ document: 1, field: 1 }, { unique: true });
+
+const PIIVault = model<IPIIVaultEntry>('PIIVault', PIIVaultSchema);
+
+export default PIIVault;
@@ -0,0 +1,47 @@
+import { Schema, model, Document, Types } from 'mongoose';
+
+// Interface for a browser web push subscription
+export interface IPushSubscription extends Document {
+  user: Types.ObjectId;
+  endpoint: string;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Push subscription schema
+const PushSubscriptionSchema = new Schema<IPushSubscription>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User is required'],
+    },
+    endpoint: {
+      type: String,
+      required: [true, 'Subscription endpoint is required'],
+      unique: true,
+    },
+    keys: {
+      p256dh: {
+        type: String,
+        required: true,
+      },
+      auth: {
+        type: String,
+        required: true,
+      },
+    },
+  },
+  { timestamps: true }
+);
+
+// Create indexes for better query performance
+PushSubscriptionSchema.index({ user: 1 });
+
+const PushSubscription = model<IPushSubscription>('PushSubscription', PushSubscriptionSchema);
+
+export default PushSubscription;
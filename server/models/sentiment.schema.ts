@@ -0,0 +1,43 @@
+import { Schema } from 'mongoose';
+
+// Interface for the sentiment service's verdict on a piece of attendee text
+export interface ISentimentScore {
+  label: 'negative' | 'neutral' | 'positive';
+  confidence: number;
+  probabilities: {
+    negative: number;
+    neutral: number;
+    positive: number;
+  };
+  // Model version that produced the score; null when the service fell back to its lexicon or scored an emoji alone
+  modelVersion: string | null;
+  analyzer: 'model' | 'lexicon' | 'emoji';
+  language?: string;
+  scoredAt: Date;
+}
+
+// Embedded in UserFeedback, ShortFeedback and Issue documents; absent until the text has been scored
+export const SentimentScoreSchema = new Schema<ISentimentScore>(
+  {
+    label: {
+      type: String,
+      enum: ['negative', 'neutral', 'positive'],
+      required: true,
+    },
+    confidence: { type: Number, min: 0, max: 1, required: true },
+    probabilities: {
+      negative: { type: Number, min: 0, max: 1, required: true },
+      neutral: { type: Number, min: 0, max: 1, required: true },
+      positive: { type: Number, min: 0, max: 1, required: true },
+    },
+    modelVersion: { type: String, default: null },
+    analyzer: {
+      type: String,
+      enum: ['model', 'lexicon', 'emoji'],
+      required: true,
+    },
+    language: String,
+    scoredAt: { type: Date, required: true },
+  },
+  { _id: false }
+);
@@ -0,0 +1,58 @@
+import { Schema, model, Document, Types } from 'mongoose';
+
+// A significant move in negative sentiment for an event or one of its zones
+export interface ISentimentShift extends Document {
+  event: Types.ObjectId;
+  zone: string;
+  zoneName?: string;
+  direction: 'negative' | 'positive';
+  magnitude: number;
+  currentNegativePercent: number;
+  previousNegativePercent: number;
+  currentSamples: number;
+  previousSamples: number;
+  windowStart: Date;
+  windowEnd: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Sentiment shift schema
+const SentimentShiftSchema = new Schema<ISentimentShift>(
+  {
+    event: {
+      type: Schema.Types.ObjectId,
+      ref: 'Event',
+      required: [true, 'Event is required'],
+    },
+    zone: {
+      type: String,
+      default: 'all',
+    },
+    zoneName: String,
+    direction: {
+      type: String,
+      enum: ['negative', 'positive'],
+      required: [true, 'Shift direction is required'],
+    },
+    magnitude: {
+      type: Number,
+      required: [true, 'Shift magnitude is required'],
+    },
+    currentNegativePercent: Number,
+    previousNegativePercent: Number,
+    currentSamples: Number,
+    previousSamples: Number,
+    windowStart: Date,
+    windowEnd: Date,
+  },
+  { timestamps: true }
+);
+
+// Create indexes for better query performance
+SentimentShiftSchema.index({ event: 1, createdAt: -1 });
+SentimentShiftSchema.index({ createdAt: -1 });
+
+const SentimentShift = model<ISentimentShift>('SentimentShift', SentimentShiftSchema);
+
+export default SentimentShift;
@@ -1,11 +1,18 @@
 import { Schema, model, Document, Types } from 'mongoose';
+import { ISentimentScore, SentimentScoreSchema } from './sentiment.schema';
+import { PIIType } from '../utils/piiDetector';
+import { modifiedTextFields, piiRedactionPlugin } from '../services/pii.service';
 
 // Interface for short feedback
 export interface IShortFeedback extends Document {
   event: Types.ObjectId;
   emoji: string;
   description?: string;
+  zone?: string;
   submittedBy?: Types.ObjectId;
+  sentiment?: ISentimentScore;
+  // Kinds of personal data redacted from the description
+  piiTypes?: PIIType[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -28,18 +35,31 @@ const ShortFeedbackSchema = new Schema<IShortFeedback>(
       maxlength: [200, 'Description cannot exceed 200 characters'],
       trim: true,
     },
+    zone: {
+      type: String,
+      trim: true,
+    },
     submittedBy: {
       type: Schema.Types.ObjectId,
       ref: 'User',
     },
+    sentiment: SentimentScoreSchema,
   },
   { timestamps: true }
 );
 
+// Personal data in the description is redacted before saving; originals go to the PII vault
+ShortFeedbackSchema.plugin(piiRedactionPlugin, {
+  source: 'shortFeedback',
+  event: (doc: IShortFeedback) => doc.event,
+  fields: (doc: IShortFeedback) => modifiedTextFields(doc, ['description']),
+});
+
 // Create indexes for better query performance
 ShortFeedbackSchema.index({ event: 1 });
 ShortFeedbackSchema.index({ submittedBy: 1 });
 ShortFeedbackSchema.index({ createdAt: 1 });
+ShortFeedbackSchema.index({ event: 1, 'sentiment.modelVersion': 1 });
 
 const ShortFeedback = model<IShortFeedback>('ShortFeedback', ShortFeedbackSchema);
 
@@ -0,0 +1,61 @@
+import { Schema, model, Document, Types } from 'mongoose';
+
+// Interface for an event's outbound webhook endpoint
+export interface IWebhook extends Document {
+  event: Types.ObjectId;
+  url: string;
+  description?: string;
+  secret: string;
+  enabled: boolean;
+  createdBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Webhook schema
+const WebhookSchema = new Schema<IWebhook>(
+  {
+    event: {
+      type: Schema.Types.ObjectId,
+      ref: 'Event',
+      required: [true, 'Event is required'],
+    },
+    url: {
+      type: String,
+      required: [true, 'Webhook URL is required'],
+      trim: true,
+      validate: {
+        validator: function (v: string) {
+          return /^https?:\/\/\S+$/.test(v);
+        },
+        message: 'Please enter a valid http(s) URL',
+      },
+    },
+    description: {
+      type: String,
+      trim: true,
+    },
+    // Shared HMAC secret, only returned when the webhook is created or rotated
+    secret: {
+      type: String,
+      required: true,
+      select: false,
+    },
+    enabled: {
+      type: Boolean,
+      default: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  { timestamps: true }
+);
+
+// Create indexes for better query performance
+WebhookSchema.index({ event: 1 });
+
+const Webhook = model<IWebhook>('Webhook', WebhookSchema);
+
+export default Webhook;
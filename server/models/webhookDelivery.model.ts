@@ -0,0 +1,78 @@
+import { Schema, model, Document, Types } from 'mongoose';
+
+// Interface for a single HTTP attempt of a delivery
+interface IDeliveryAttempt {
+  attemptedAt: Date;
+  statusCode?: number;
+  error?: string;
+  durationMs: number;
+}
+
+// Interface for a webhook delivery and its retry state
+export interface IWebhookDelivery extends Document {
+  webhook: Types.ObjectId;
+  event: Types.ObjectId;
+  alert?: Types.ObjectId;
+  type: 'alert.raised' | 'webhook.test';
+  payload: { [key: string]: any };
+  status: 'pending' | 'succeeded' | 'failed';
+  attempts: IDeliveryAttempt[];
+  nextAttemptAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Webhook delivery schema
+const WebhookDeliverySchema = new Schema<IWebhookDelivery>(
+  {
+    webhook: {
+      type: Schema.Types.ObjectId,
+      ref: 'Webhook',
+      required: true,
+    },
+    event: {
+      type: Schema.Types.ObjectId,
+      ref: 'Event',
+      required: true,
+    },
+    alert: {
+      type: Schema.Types.ObjectId,
+      ref: 'Alert',
+    },
+    type: {
+      type: String,
+      enum: ['alert.raised', 'webhook.test'],
+      required: true,
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'succeeded', 'failed'],
+      default: 'pending',
+    },
+    attempts: [
+      {
+        attemptedAt: {
+          type: Date,
+          default: Date.now,
+        },
+        statusCode: Number,
+        error: String,
+        durationMs: Number,
+      },
+    ],
+    nextAttemptAt: Date,
+  },
+  { timestamps: true }
+);
+
+// Create indexes for better query performance
+WebhookDeliverySchema.index({ webhook: 1, createdAt: -1 });
+WebhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+
+const WebhookDelivery = model<IWebhookDelivery>('WebhookDelivery', WebhookDeliverySchema);
+
+export default WebhookDelivery;
@@ -0,0 +1,31 @@
+import express from 'express';
+import { isAuthenticate } from '../middleware/auth';
+import {
+  getAllAlerts,
+  getAlertById,
+  acknowledgeAlert,
+  snoozeAlert,
+  resolveAlert,
+  addAlertNote,
+} from '../controllers/alert.controller';
+
+const router = express.Router();
+
+// Protected routes - all routes require authentication
+router.use(isAuthenticate);
+
+// List alerts (filter by event, status, severity, trigger)
+router.get('/', getAllAlerts);
+
+// Get alert by ID
+router.get('/:id', getAlertById);
+
+// Alert lifecycle
+router.put('/:id/acknowledge', acknowledgeAlert);
+router.put('/:id/snooze', snoozeAlert);
+router.put('/:id/resolve', resolveAlert);
+
+// Add note to alert
+router.post('/:id/note', addAlertNote);
+
+export default router;
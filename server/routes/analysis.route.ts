@@ -0,0 +1,13 @@
+import express from 'express';
+import { isAuthenticate } from '../middleware/auth';
+import { getAnalysisStatus } from '../controllers/analysis.controller';
+
+const router = express.Router();
+
+// Protected routes - all routes require authentication
+router.use(isAuthenticate);
+
+// Last and next analysis run per event (filter by event, defaults to live events)
+router.get('/status', getAnalysisStatus);
+
+export default router;
@@ -0,0 +1,16 @@
+import express from 'express';
+import { isAuthenticate } from '../middleware/auth';
+import { getEventKeywordHits, getEventKeywordTrends } from '../controllers/keyword.controller';
+
+const router = express.Router();
+
+// Protected routes - all routes require authentication
+router.use(isAuthenticate);
+
+// Keyword hit counts of an event (filter by category, from, to)
+router.get('/event/:eventId', getEventKeywordHits);
+
+// Trending terms and spikes (window and baseline in minutes)
+router.get('/event/:eventId/trends', getEventKeywordTrends);
+
+export default router;
@@ -0,0 +1,19 @@
+import express from 'express';
+import { isAuthenticate } from '../middleware/auth';
+import {
+  getVapidPublicKey,
+  subscribePush,
+  unsubscribePush,
+} from '../controllers/notification.controller';
+
+const router = express.Router();
+
+// Protected routes - all routes require authentication
+router.use(isAuthenticate);
+
+// Web push subscriptions
+router.get('/push/public-key', getVapidPublicKey);
+router.post('/push/subscribe', subscribePush);
+router.post('/push/unsubscribe', unsubscribePush);
+
+export default router;
@@ -0,0 +1,14 @@
+import express from 'express';
+import { authorizeRoles, isAuthenticate } from '../middleware/auth';
+import { getOriginalText } from '../controllers/pii.controller';
+import { PII_RAW_ACCESS_ROLES } from '../services/pii.service';
+
+const router = express.Router();
+
+// Protected routes - all routes require authentication
+router.use(isAuthenticate);
+
+// Original text of a redacted document (source is feedback, shortFeedback or issue); PII_RAW_ACCESS_ROLES only
+router.get('/:source/:id', authorizeRoles(...PII_RAW_ACCESS_ROLES), getOriginalText);
+
+export default router;
@@ -0,0 +1,16 @@
+import express from 'express';
+import { authorizeRoles, isAuthenticate } from '../middleware/auth';
+import { getSentimentStatus, rescoreEventSentiment } from '../controllers/sentiment.controller';
+
+const router = express.Router();
+
+// Protected routes - all routes require authentication
+router.use(isAuthenticate);
+
+// Scoring queue depth and circuit breaker state
+router.get('/status', getSentimentStatus);
+
+// Re-score an event's feedback, short feedback and issues not yet scored by the given (or active) model version
+router.post('/rescore/:eventId', authorizeRoles('client', 'admin'), rescoreEventSentiment);
+
+export default router;
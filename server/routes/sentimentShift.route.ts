@@ -0,0 +1,13 @@
+import express from 'express';
+import { isAuthenticate } from '../middleware/auth';
+import { getSentimentShifts } from '../controllers/sentimentShift.controller';
+
+const router = express.Router();
+
+// Protected routes - all routes require authentication
+router.use(isAuthenticate);
+
+// List sentiment shifts (filter by event, zone, direction, from, to)
+router.get('/', getSentimentShifts);
+
+export default router;
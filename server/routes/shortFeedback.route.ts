@@ -9,6 +9,7 @@ import {
   getUserShortFeedback,
   getEventShortFeedback,
   getShortFeedbackByEmoji,
+  getEventEmojiPulse,
 } from '../controllers/shortFeedback.controller';
 
 const router = express.Router();
@@ -21,6 +22,7 @@ router.get('/user/feedback', getUserShortFeedback);
 
 // Event specific routes
 router.get('/event/:eventId', getEventShortFeedback);
+router.get('/pulse/:eventId', getEventEmojiPulse);
 
 // Emoji specific routes
 router.get('/emoji/:emoji', getShortFeedbackByEmoji);
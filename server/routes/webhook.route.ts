@@ -0,0 +1,30 @@
+import express from 'express';
+import { authorizeRoles, isAuthenticate } from '../middleware/auth';
+import {
+  createWebhook,
+  getEventWebhooks,
+  updateWebhook,
+  rotateWebhookSecret,
+  deleteWebhook,
+  testWebhook,
+  getWebhookDeliveries,
+} from '../controllers/webhook.controller';
+
+const router = express.Router();
+
+// Protected routes - webhooks are managed by the event's client or an admin
+router.use(isAuthenticate, authorizeRoles('client', 'admin'));
+
+// Event specific routes
+router.get('/event/:eventId', getEventWebhooks);
+
+// General routes
+router.post('/create', createWebhook);
+
+// ID specific routes
+router.route('/:id').put(updateWebhook).delete(deleteWebhook);
+router.post('/:id/test', testWebhook);
+router.post('/:id/rotate-secret', rotateWebhookSecret);
+router.get('/:id/deliveries', getWebhookDeliveries);
+
+export default router;
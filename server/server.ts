@@ -2,6 +2,12 @@
 import { app } from "./app";
 require("dotenv").config();
 import connectDB from "./utils/db";
+import { startAlertEngine } from "./services/alertEngine.service";
+import { startNotificationDispatcher } from "./services/notification.service";
+import { startWebhookWorker } from "./services/webhook.service";
+import { startEscalationWorker } from "./services/escalation.service";
+import { startDigestWorker } from "./services/digest.service";
+import { startAnalysisScheduler } from "./services/analysisScheduler.service";
 const cloudinary = require("cloudinary").v2;
 
 // cloudinary config
@@ -14,4 +20,10 @@ cloudinary.config({
 app.listen(8080, () => {
   console.log(`server is connected with port ${process.env.PORT}`);
   connectDB();
+  startNotificationDispatcher();
+  startWebhookWorker();
+  startEscalationWorker();
+  startDigestWorker();
+  startAlertEngine();
+  startAnalysisScheduler();
 });
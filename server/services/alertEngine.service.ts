@@ -0,0 +1,132 @@
+import { EventEmitter } from 'events';
+import Event, { IEvent } from '../models/event.model';
+import Alert, { IAlert } from '../models/alert.model';
+import { redis } from '../utils/redis';
+import { durationToMs } from '../utils/duration';
+import { collectSignals } from './signal.service';
+import { AlertSeverity, AlertTrigger, evaluateRules, summarizeSignals } from './alertRules.service';
+import { computeShifts, recordShifts, SHIFT_BASELINE, SHIFT_WINDOW } from './sentimentShift.service';
+import { registerAnalysisJob, requestAnalysis } from './analysisScheduler.service';
+
+const ENGINE_INTERVAL = parseInt(process.env.ALERT_ENGINE_INTERVAL_MS || '60000', 10);
+const WINDOW = parseInt(process.env.ALERT_WINDOW_MS || String(15 * 60 * 1000), 10);
+const DEFAULT_COOLDOWN = 15 * 60 * 1000;
+const EVALUATION_DEBOUNCE = 2000;
+
+// Emits 'alert' with the saved IAlert whenever a rule fires outside its cooldown
+export const alertEvents = new EventEmitter();
+
+const running = new Set<string>();
+const pending = new Map<string, NodeJS.Timeout>();
+
+const cooldownFor = (event: IEvent, severity: AlertSeverity): number =>
+  durationToMs(event.alertSeverity?.[severity]?.cooldownPeriod, DEFAULT_COOLDOWN) || DEFAULT_COOLDOWN;
+
+// Claim the cooldown slot in redis so concurrent server instances raise an alert once
+const claimCooldown = async (eventId: string, severity: AlertSeverity, trigger: AlertTrigger, ms: number) => {
+  const claimed = await redis.set(`alert:cooldown:${eventId}:${severity}:${trigger}`, Date.now(), 'PX', ms, 'NX');
+  return claimed === 'OK';
+};
+
+// A snoozed alert silences new alerts for the same rule until the snooze ends
+const isSnoozed = async (eventId: string, severity: AlertSeverity, trigger: AlertTrigger, now: Date) => {
+  const snoozed = await Alert.exists({
+    event: eventId,
+    severity,
+    trigger,
+    status: 'snoozed',
+    snoozedUntil: { $gt: now },
+  });
+  return !!snoozed;
+};
+
+const isLive = (event: IEvent, now: Date) => event.startDate <= now && event.endDate >= now;
+
+// Evaluate one event against its alert settings and raise the rules that fire.
+// The window reaches back to the previous run (never before the event started), so slow cadences miss no signals.
+export const evaluateEvent = async (event: IEvent, now: Date = new Date(), lastRunAt?: Date): Promise<IAlert[]> => {
+  const eventId = String(event._id);
+  if (running.has(eventId)) return [];
+  running.add(eventId);
+
+  try {
+    const since = lastRunAt && Math.max(lastRunAt.getTime(), event.startDate.getTime());
+    const span = since ? Math.max(WINDOW, now.getTime() - since) : WINDOW;
+    const windowStart = new Date(now.getTime() - span);
+    const previousStart = new Date(windowStart.getTime() - span);
+    const shiftStart = new Date(now.getTime() - SHIFT_WINDOW - SHIFT_BASELINE);
+
+    // One query covers both the rule windows and the shift baseline
+    const from = new Date(Math.min(previousStart.getTime(), shiftStart.getTime()));
+    const signals = await collectSignals(eventId, from, now);
+    const currentSignals = signals.filter((signal) => signal.createdAt >= windowStart);
+    const previousSignals = signals.filter((signal) => signal.createdAt >= previousStart && signal.createdAt < windowStart);
+
+    const shifts = computeShifts(event, signals, now);
+    await recordShifts(event, shifts);
+
+    const rules = evaluateRules(
+      event,
+      summarizeSignals(event, currentSignals),
+      summarizeSignals(event, previousSignals),
+      shifts
+    );
+
+    const raised: IAlert[] = [];
+    for (const rule of rules) {
+      if (await isSnoozed(eventId, rule.severity, rule.trigger, now)) {
+        continue;
+      }
+      if (!(await claimCooldown(eventId, rule.severity, rule.trigger, cooldownFor(event, rule.severity)))) {
+        continue;
+      }
+
+      const alert = await Alert.create({
+        event: event._id,
+        severity: rule.severity,
+        trigger: rule.trigger,
+        message: rule.message,
+        evidence: rule.evidence.map(({ source, id, text }) => ({ source, id, text })),
+        metrics: rule.metrics,
+      });
+      raised.push(alert);
+      alertEvents.emit('alert', alert);
+    }
+
+    return raised;
+  } finally {
+    running.delete(eventId);
+  }
+};
+
+// Snoozed alerts whose snooze has ended need attention again
+export const reopenExpiredSnoozes = async (now: Date = new Date()) => {
+  await Alert.updateMany({ status: 'snoozed', snoozedUntil: { $lte: now } }, { $set: { status: 'open' } });
+};
+
+// Events analysed in realtime are re-evaluated shortly after new input arrives, batching bursts of submissions
+export const scheduleEvaluation = (eventId: string | undefined) => {
+  if (!eventId || pending.has(String(eventId))) return;
+
+  const timer = setTimeout(async () => {
+    pending.delete(String(eventId));
+    try {
+      const event = await Event.findById(eventId);
+      if (event && isLive(event, new Date()) && durationToMs(event.sentimentTracking.analysisFrequency) === 0) {
+        await requestAnalysis(event);
+      }
+    } catch (error) {
+      console.error(`[alert-engine] evaluation failed for event ${eventId}:`, error);
+    }
+  }, EVALUATION_DEBOUNCE);
+
+  pending.set(String(eventId), timer);
+};
+
+// Alert evaluation runs as an analysis job on each event's analysis frequency
+export const startAlertEngine = () => {
+  registerAnalysisJob('alerts', evaluateEvent);
+  return setInterval(() => {
+    reopenExpiredSnoozes().catch((error) => console.error('[alert-engine]', error));
+  }, ENGINE_INTERVAL);
+};
@@ -0,0 +1,168 @@
+import { IEvent } from '../models/event.model';
+import { ISignal } from './signal.service';
+import { matchEventKeywords } from './keyword.service';
+import { ALL_ZONES, IShift } from './sentimentShift.service';
+
+export type AlertSeverity = 'critical' | 'warning' | 'info';
+
+export type AlertTrigger =
+  | 'technical_issue'
+  | 'negative_50'
+  | 'negative_40'
+  | 'negative_30'
+  | 'shift_10'
+  | 'alert_threshold';
+
+export const ALERT_SEVERITIES: AlertSeverity[] = ['critical', 'warning', 'info'];
+
+// Sentiment triggers are ignored until a window holds at least this many signals
+const MIN_SAMPLES = parseInt(process.env.ALERT_MIN_SAMPLES || '5', 10);
+
+export interface IWindowStats {
+  total: number;
+  positive: number;
+  neutral: number;
+  negative: number;
+  positivePercent: number;
+  negativePercent: number;
+  negativeSignals: ISignal[];
+  technicalIssues: ISignal[];
+  technicalKeywords: { [keyword: string]: number };
+}
+
+export interface ITriggeredRule {
+  severity: AlertSeverity;
+  trigger: AlertTrigger;
+  message: string;
+  evidence: ISignal[];
+  metrics: {
+    total: number;
+    negativePercent: number;
+    previousNegativePercent?: number;
+  };
+}
+
+// Classify signals with the event's positive/negative thresholds
+export const summarizeSignals = (event: IEvent, signals: ISignal[]): IWindowStats => {
+  const { positiveThreshold, negativeThreshold } = event.sentimentTracking;
+
+  const negativeSignals = signals.filter((signal) => signal.score <= negativeThreshold);
+  const positive = signals.filter((signal) => signal.score >= positiveThreshold).length;
+  const total = signals.length;
+
+  // Technical issue reports plus negative input mentioning the event's technical keywords;
+  // praise such as "the sound was great" mentions them too but reports no problem
+  const technicalKeywords: { [keyword: string]: number } = {};
+  const technicalIssues = signals.filter((signal) => {
+    const reported = signal.source === 'issue' && signal.category === 'technical';
+    if (!reported && signal.score > negativeThreshold) return false;
+
+    const matches = matchEventKeywords(event, signal.text, 'technical');
+    matches.forEach(({ keyword, count }) => {
+      technicalKeywords[keyword] = (technicalKeywords[keyword] || 0) + count;
+    });
+    return reported || matches.length > 0;
+  });
+
+  return {
+    total,
+    positive,
+    neutral: total - positive - negativeSignals.length,
+    negative: negativeSignals.length,
+    positivePercent: total ? (positive / total) * 100 : 0,
+    negativePercent: total ? (negativeSignals.length / total) * 100 : 0,
+    negativeSignals,
+    technicalIssues,
+    technicalKeywords,
+  };
+};
+
+const negativeTriggerLimits: { [trigger: string]: number } = {
+  negative_50: 50,
+  negative_40: 40,
+  negative_30: 30,
+};
+
+const checkTrigger = (
+  trigger: AlertTrigger,
+  current: IWindowStats,
+  shifts: IShift[]
+): { message: string; evidence: ISignal[] } | null => {
+  const negative = Math.round(current.negativePercent);
+
+  if (trigger === 'technical_issue') {
+    if (!current.technicalIssues.length) return null;
+    const keywords = Object.entries(current.technicalKeywords)
+      .sort((a, b) => b[1] - a[1])
+      .map(([keyword, count]) => `${keyword} (${count})`);
+    return {
+      message: keywords.length
+        ? `${current.technicalIssues.length} technical issue(s) reported, mentioning ${keywords.join(', ')}`
+        : `${current.technicalIssues.length} technical issue(s) reported`,
+      evidence: current.technicalIssues,
+    };
+  }
+
+  if (trigger in negativeTriggerLimits) {
+    const limit = negativeTriggerLimits[trigger];
+    if (current.total < MIN_SAMPLES || current.negativePercent <= limit) return null;
+    return {
+      message: `Negative sentiment at ${negative}% (above ${limit}%)`,
+      evidence: current.negativeSignals,
+    };
+  }
+
+  // Largest negative move for the event or any zone, last 15 minutes against the previous hour
+  if (trigger === 'shift_10') {
+    const shift = shifts.find((candidate) => candidate.direction === 'negative' && candidate.magnitude >= 10);
+    if (!shift) return null;
+    const where = shift.zone === ALL_ZONES ? '' : ` in ${shift.zoneName || `zone ${shift.zone}`}`;
+    const points = Math.round(shift.magnitude);
+    return {
+      message: `Negative sentiment rose by ${points} points to ${Math.round(shift.currentNegativePercent)}%${where}`,
+      evidence: shift.evidence,
+    };
+  }
+
+  return null;
+};
+
+// Evaluate the event's alert severity levels and alert threshold against a window
+export const evaluateRules = (
+  event: IEvent,
+  current: IWindowStats,
+  previous: IWindowStats,
+  shifts: IShift[] = []
+): ITriggeredRule[] => {
+  const triggered: ITriggeredRule[] = [];
+  const metrics = {
+    total: current.total,
+    negativePercent: current.negativePercent,
+    previousNegativePercent: previous.total ? previous.negativePercent : undefined,
+  };
+
+  ALERT_SEVERITIES.forEach((severity) => {
+    const level = event.alertSeverity?.[severity];
+    if (!level?.enabled || !level.triggerThreshold) return;
+
+    const trigger = level.triggerThreshold as AlertTrigger;
+    const result = checkTrigger(trigger, current, shifts);
+    if (result) {
+      triggered.push({ severity, trigger, ...result, metrics });
+    }
+  });
+
+  // The overall alert threshold raises a warning with the organizer's own message
+  const { alertThreshold, alertMessage } = event.sentimentTracking;
+  if (alertThreshold > 0 && current.total >= MIN_SAMPLES && current.negativePercent >= alertThreshold) {
+    triggered.push({
+      severity: 'warning',
+      trigger: 'alert_threshold',
+      message: alertMessage || `Negative sentiment reached ${Math.round(current.negativePercent)}%`,
+      evidence: current.negativeSignals,
+      metrics,
+    });
+  }
+
+  return triggered;
+};
@@ -0,0 +1,197 @@
+import Event, { IEvent } from '../models/event.model';
+import { redis } from '../utils/redis';
+import { acquireLock, releaseLock } from '../utils/redisLock';
+import { durationToMs } from '../utils/duration';
+
+const TICK_MS = parseInt(process.env.ANALYSIS_TICK_MS || '15000', 10);
+// 'realtime' events are also analysed on every submission; this is their fallback cadence
+const REALTIME_INTERVAL = parseInt(process.env.ANALYSIS_REALTIME_INTERVAL_MS || '60000', 10);
+const LOCK_MS = parseInt(process.env.ANALYSIS_LOCK_MS || String(5 * 60 * 1000), 10);
+// Run state outlives restarts so overdue events are caught up on startup
+const STATE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// lastRunAt is when the previous run of the event started, so a job can cover everything since then
+export type AnalysisJob = (event: IEvent, now: Date, lastRunAt?: Date) => Promise<unknown>;
+export type AnalysisRunStatus = 'succeeded' | 'failed';
+
+export interface IAnalysisJobResult {
+  status: AnalysisRunStatus;
+  durationMs: number;
+  error?: string;
+}
+
+export interface IAnalysisStatus {
+  event: string;
+  name: string;
+  analysisFrequency: string;
+  intervalMs: number;
+  live: boolean;
+  running: boolean;
+  lastRunAt: Date | null;
+  lastStatus: AnalysisRunStatus | null;
+  lastDurationMs: number | null;
+  lastError: string | null;
+  missedRuns: number;
+  jobs: { [name: string]: IAnalysisJobResult };
+  nextRunAt: Date | null;
+}
+
+interface IRunState {
+  lastRunAt?: Date;
+  lastStatus?: AnalysisRunStatus;
+  lastDurationMs?: number;
+  lastError?: string;
+  missedRuns: number;
+  jobs: { [name: string]: IAnalysisJobResult };
+  nextRunAt?: Date;
+}
+
+// Jobs run in registration order for every event on its analysis cadence
+const jobs = new Map<string, AnalysisJob>();
+
+export const registerAnalysisJob = (name: string, job: AnalysisJob) => {
+  jobs.set(name, job);
+};
+
+export const analysisInterval = (event: IEvent): number =>
+  durationToMs(event.sentimentTracking?.analysisFrequency) || REALTIME_INTERVAL;
+
+const isLive = (event: IEvent, now: Date) => event.startDate <= now && event.endDate >= now;
+
+const stateKey = (eventId: string) => `analysis:state:${eventId}`;
+const lockKey = (eventId: string) => `analysis:lock:${eventId}`;
+// Set when a run was asked for while another one held the lock; the holder runs again when it finishes
+const rerunKey = (eventId: string) => `analysis:rerun:${eventId}`;
+
+const readState = async (eventId: string): Promise<IRunState> => {
+  const raw = await redis.hgetall(stateKey(eventId));
+
+  return {
+    lastRunAt: raw.lastRunAt ? new Date(raw.lastRunAt) : undefined,
+    lastStatus: raw.lastStatus as AnalysisRunStatus | undefined,
+    lastDurationMs: raw.lastDurationMs ? Number(raw.lastDurationMs) : undefined,
+    lastError: raw.lastError || undefined,
+    missedRuns: Number(raw.missedRuns || 0),
+    jobs: raw.jobs ? JSON.parse(raw.jobs) : {},
+    nextRunAt: raw.nextRunAt ? new Date(raw.nextRunAt) : undefined,
+  };
+};
+
+const isDue = (state: IRunState, now: Date) => !state.nextRunAt || state.nextRunAt <= now;
+
+// Whole intervals that passed without a run, e.g. while no server instance was up
+const missedSince = (state: IRunState, interval: number, now: Date) =>
+  state.nextRunAt ? Math.floor((now.getTime() - state.nextRunAt.getTime()) / interval) : 0;
+
+// Run every registered job for an event, unless another instance holds its lock.
+// Without force the run is skipped when it is not due yet.
+export const runAnalysis = async (event: IEvent, force: boolean = false): Promise<boolean> => {
+  const eventId = String(event._id);
+  const now = new Date();
+  const lock = await acquireLock(lockKey(eventId), LOCK_MS);
+  if (!lock) return false;
+
+  try {
+    // Re-check under the lock: another instance may have just finished this run
+    const state = await readState(eventId);
+    if (!force && !isDue(state, now)) return false;
+
+    const interval = analysisInterval(event);
+    const missedRuns = missedSince(state, interval, now);
+    if (missedRuns > 0) {
+      console.log(`[analysis] catching up event ${eventId} after ${missedRuns} missed run(s)`);
+    }
+
+    const results: { [name: string]: IAnalysisJobResult } = {};
+    for (const [name, job] of jobs) {
+      const started = Date.now();
+      try {
+        await job(event, now, state.lastRunAt);
+        results[name] = { status: 'succeeded', durationMs: Date.now() - started };
+      } catch (error: any) {
+        console.error(`[analysis] ${name} failed for event ${eventId}:`, error);
+        results[name] = { status: 'failed', durationMs: Date.now() - started, error: error?.message || String(error) };
+      }
+    }
+
+    const failed = Object.entries(results).filter(([, result]) => result.status === 'failed');
+
+    await redis.hset(stateKey(eventId), {
+      lastRunAt: now.toISOString(),
+      lastStatus: failed.length ? 'failed' : 'succeeded',
+      lastDurationMs: Date.now() - now.getTime(),
+      lastError: failed.map(([name, result]) => `${name}: ${result.error}`).join('; '),
+      missedRuns,
+      jobs: JSON.stringify(results),
+      nextRunAt: new Date(now.getTime() + interval).toISOString(),
+    });
+    await redis.expire(stateKey(eventId), STATE_TTL_SECONDS);
+
+    return true;
+  } finally {
+    await releaseLock(lockKey(eventId), lock);
+    if (await redis.del(rerunKey(eventId))) {
+      requestAnalysis(event).catch((error) =>
+        console.error(`[analysis] follow-up run failed for event ${eventId}:`, error)
+      );
+    }
+  }
+};
+
+// Run an event's analysis now, or right after the run that holds its lock, on whichever instance that is
+export const requestAnalysis = async (event: IEvent): Promise<void> => {
+  const eventId = String(event._id);
+  while (!(await runAnalysis(event, true))) {
+    await redis.set(rerunKey(eventId), Date.now(), 'PX', LOCK_MS);
+    // The holder may have finished before the flag was set; then it is ours to run
+    if (await redis.exists(lockKey(eventId))) return;
+    if (!(await redis.del(rerunKey(eventId)))) return;
+  }
+};
+
+// Run the analysis of every live event that is due
+export const runDueAnalyses = async (now: Date = new Date()) => {
+  const events = await Event.find({ startDate: { $lte: now }, endDate: { $gte: now } });
+
+  for (const event of events) {
+    try {
+      if (isDue(await readState(String(event._id)), now)) {
+        await runAnalysis(event);
+      }
+    } catch (error) {
+      console.error(`[analysis] run failed for event ${event._id}:`, error);
+    }
+  }
+};
+
+export const getEventAnalysisStatus = async (event: IEvent, now: Date = new Date()): Promise<IAnalysisStatus> => {
+  const eventId = String(event._id);
+  const [state, locked] = await Promise.all([readState(eventId), redis.exists(lockKey(eventId))]);
+  const live = isLive(event, now);
+
+  return {
+    event: eventId,
+    name: event.name,
+    analysisFrequency: event.sentimentTracking?.analysisFrequency,
+    intervalMs: analysisInterval(event),
+    live,
+    running: locked === 1,
+    lastRunAt: state.lastRunAt || null,
+    lastStatus: state.lastStatus || null,
+    lastDurationMs: state.lastDurationMs ?? null,
+    lastError: state.lastError || null,
+    missedRuns: state.missedRuns,
+    jobs: state.jobs,
+    // Overdue live events run on the next tick
+    nextRunAt: live ? (isDue(state, now) ? now : state.nextRunAt!) : null,
+  };
+};
+
+export const startAnalysisScheduler = () => {
+  console.log(`Analysis scheduler checking every ${TICK_MS / 1000}s`);
+  // Catch up immediately rather than waiting for the first tick
+  runDueAnalyses().catch((error) => console.error('[analysis]', error));
+  return setInterval(() => {
+    runDueAnalyses().catch((error) => console.error('[analysis]', error));
+  }, TICK_MS);
+};
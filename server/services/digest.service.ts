@@ -0,0 +1,55 @@
+import { Types } from 'mongoose';
+import Event from '../models/event.model';
+import Alert from '../models/alert.model';
+import { acquireLock, releaseLock } from '../utils/redisLock';
+import { digestInterval, dispatchDigest } from './notification.service';
+
+const WORKER_INTERVAL_MS = 60000;
+const LOCK_MS = 60000;
+
+const pendingFilter = { 'digest.queuedAt': { $exists: true }, 'digest.sentAt': { $exists: false } };
+
+// Send an event's digest once its oldest queued alert has waited a full alert frequency
+const sendEventDigest = async (eventId: Types.ObjectId, now: Date) => {
+  const lockKey = `alert:digest:${eventId}`;
+  const lock = await acquireLock(lockKey, LOCK_MS);
+  if (!lock) return;
+
+  try {
+    const [event, alerts] = await Promise.all([
+      Event.findById(eventId),
+      Alert.find({ event: eventId, ...pendingFilter }).sort({ createdAt: 1 }),
+    ]);
+    if (!alerts.length) return;
+
+    if (!event) {
+      await Alert.updateMany({ event: eventId, ...pendingFilter }, { $set: { 'digest.sentAt': now } });
+      return;
+    }
+
+    const oldest = alerts[0].digest?.queuedAt || alerts[0].createdAt;
+    if (oldest.getTime() + digestInterval(event, 'info') > now.getTime()) return;
+
+    await dispatchDigest(alerts, event);
+  } finally {
+    await releaseLock(lockKey, lock);
+  }
+};
+
+// Check every event with queued alerts and send the digests that are due
+export const sendDueDigests = async (now: Date = new Date()) => {
+  const eventIds: Types.ObjectId[] = await Alert.distinct('event', pendingFilter);
+
+  for (const eventId of eventIds) {
+    try {
+      await sendEventDigest(eventId, now);
+    } catch (error) {
+      console.error(`[digest] failed to send digest for event ${eventId}:`, error);
+    }
+  }
+};
+
+export const startDigestWorker = () =>
+  setInterval(() => {
+    sendDueDigests().catch((error) => console.error('[digest]', error));
+  }, WORKER_INTERVAL_MS);
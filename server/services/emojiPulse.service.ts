@@ -0,0 +1,93 @@
+import { Types } from 'mongoose';
+import ShortFeedback from '../models/shortFeedback.model';
+import { emojiValence, getEventEmojiValences } from './signal.service';
+
+export interface EmojiShare {
+  emoji: string;
+  count: number;
+  share: number;
+  valence: number;
+}
+
+export interface EmojiPulseBucket {
+  timestamp: Date;
+  total: number;
+  averageValence: number;
+  counts: { [emoji: string]: number };
+}
+
+export interface EmojiPulse {
+  total: number;
+  averageValence: number;
+  distribution: EmojiShare[];
+  buckets: EmojiPulseBucket[];
+}
+
+const averageValence = (counts: { [emoji: string]: number }, valences: { [emoji: string]: number }) => {
+  const entries = Object.entries(counts);
+  const total = entries.reduce((sum, [, count]) => sum + count, 0);
+  return total ? entries.reduce((sum, [emoji, count]) => sum + emojiValence(emoji, valences) * count, 0) / total : 0;
+};
+
+// Emoji reactions of an event within [from, to): overall distribution plus per-interval counts
+export const getEmojiPulse = async (
+  eventId: string,
+  from: Date,
+  to: Date,
+  intervalMinutes: number,
+  zone?: string
+): Promise<EmojiPulse> => {
+  const match: Record<string, unknown> = { event: new Types.ObjectId(eventId), createdAt: { $gte: from, $lt: to } };
+  if (zone) match.zone = zone;
+
+  const [[result], valences] = await Promise.all([
+    ShortFeedback.aggregate([
+      { $match: match },
+      {
+        $facet: {
+          distribution: [{ $group: { _id: '$emoji', count: { $sum: 1 } } }, { $sort: { count: -1 } }],
+          buckets: [
+            {
+              $group: {
+                _id: {
+                  timestamp: { $dateTrunc: { date: '$createdAt', unit: 'minute', binSize: intervalMinutes } },
+                  emoji: '$emoji',
+                },
+                count: { $sum: 1 },
+              },
+            },
+            { $sort: { '_id.timestamp': 1 } },
+          ],
+        },
+      },
+    ]),
+    getEventEmojiValences(eventId),
+  ]);
+
+  const counts: { [emoji: string]: number } = {};
+  result.distribution.forEach(({ _id, count }: { _id: string; count: number }) => (counts[_id] = count));
+  const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+
+  const buckets = new Map<number, { [emoji: string]: number }>();
+  result.buckets.forEach(({ _id, count }: { _id: { timestamp: Date; emoji: string }; count: number }) => {
+    const key = new Date(_id.timestamp).getTime();
+    buckets.set(key, { ...buckets.get(key), [_id.emoji]: count });
+  });
+
+  return {
+    total,
+    averageValence: averageValence(counts, valences),
+    distribution: Object.entries(counts).map(([emoji, count]) => ({
+      emoji,
+      count,
+      share: count / total,
+      valence: emojiValence(emoji, valences),
+    })),
+    buckets: [...buckets.entries()].map(([timestamp, bucketCounts]) => ({
+      timestamp: new Date(timestamp),
+      total: Object.values(bucketCounts).reduce((sum, count) => sum + count, 0),
+      averageValence: averageValence(bucketCounts, valences),
+      counts: bucketCounts,
+    })),
+  };
+};
@@ -0,0 +1,90 @@
+import Event, { IEvent } from '../models/event.model';
+import Alert, { IAlert } from '../models/alert.model';
+import { durationToMs } from '../utils/duration';
+import { alertEvents } from './alertEngine.service';
+import { dispatchAlert, IEscalationStep } from './notification.service';
+
+const WORKER_INTERVAL_MS = 30000;
+const DEFAULT_WINDOW = 15 * 60 * 1000;
+const CLAIM_MS = 60000;
+
+const escalates = (event: IEvent, alert: IAlert) => alert.severity === 'critical' && !!event.escalationPolicy?.enabled;
+
+const acknowledgeWindow = (event: IEvent) =>
+  durationToMs(event.escalationPolicy?.acknowledgeWindow, DEFAULT_WINDOW) || DEFAULT_WINDOW;
+
+// Level 0 is the primary recipient, then each remaining recipient in list order, then the whole team
+export const escalationChain = (event: IEvent): IEscalationStep[] => {
+  const recipients = event.alertRecipients || [];
+  const others = recipients.filter((recipient) => !recipient.isPrimary);
+
+  return [
+    { level: 0, recipients: recipients.filter((recipient) => recipient.isPrimary), wholeTeam: false },
+    ...others.map((recipient, index) => ({ level: index + 1, recipients: [recipient], wholeTeam: false })),
+    { level: others.length + 1, recipients, wholeTeam: true },
+  ];
+};
+
+// Start the acknowledgement clock for a newly raised critical alert
+const startEscalation = async (alert: IAlert) => {
+  if (alert.severity !== 'critical') return;
+
+  const event = await Event.findById(alert.event);
+  if (!event || !escalates(event, alert)) return;
+
+  await Alert.updateOne(
+    { _id: alert._id },
+    { $set: { 'escalation.level': 0, 'escalation.nextAt': new Date(Date.now() + acknowledgeWindow(event)) } }
+  );
+};
+
+// Notify the next step of the chain and schedule the one after it
+export const escalateAlert = async (alert: IAlert): Promise<IAlert> => {
+  const event = await Event.findById(alert.event);
+  const chain = event && escalates(event, alert) ? escalationChain(event) : [];
+  const step = chain[alert.escalation.level + 1];
+
+  if (!event || !step) {
+    alert.escalation.nextAt = undefined;
+    await alert.save();
+    return alert;
+  }
+
+  alert.escalation.level = step.level;
+  alert.escalation.nextAt = chain[step.level + 1] ? new Date(Date.now() + acknowledgeWindow(event)) : undefined;
+  alert.escalation.history.push({
+    level: step.level,
+    recipients: step.recipients.map((recipient) => recipient.email),
+    escalatedAt: new Date(),
+  });
+
+  return dispatchAlert(alert, step);
+};
+
+// Escalate open alerts whose acknowledgement window has passed, claiming each one so other instances skip it
+export const escalateDueAlerts = async () => {
+  for (let i = 0; i < 50; i++) {
+    const alert = await Alert.findOneAndUpdate(
+      { status: 'open', 'escalation.nextAt': { $lte: new Date() } },
+      { $set: { 'escalation.nextAt': new Date(Date.now() + CLAIM_MS) } },
+      { new: true, sort: { 'escalation.nextAt': 1 } }
+    );
+    if (!alert) break;
+
+    try {
+      await escalateAlert(alert);
+    } catch (error) {
+      console.error(`[escalation] failed to escalate alert ${alert._id}:`, error);
+    }
+  }
+};
+
+export const startEscalationWorker = () => {
+  alertEvents.on('alert', (alert: IAlert) => {
+    startEscalation(alert).catch((error) => console.error('[escalation]', error));
+  });
+
+  return setInterval(() => {
+    escalateDueAlerts().catch((error) => console.error('[escalation]', error));
+  }, WORKER_INTERVAL_MS);
+};
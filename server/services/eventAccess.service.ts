@@ -0,0 +1,16 @@
+import { Types } from 'mongoose';
+import Event, { EventUserConnection } from '../models/event.model';
+import { IUser } from '../models/user.model';
+
+// Admins manage every event; clients only the events they own
+export const canManageEvent = async (eventId: Types.ObjectId | string, user?: IUser): Promise<boolean> => {
+  if (!user) return false;
+  if (user.role === 'admin') return true;
+  return !!(await Event.exists({ _id: eventId, clientId: user._id }));
+};
+
+// Attendees added to an event may also view it
+export const canViewEvent = async (eventId: Types.ObjectId | string, user?: IUser): Promise<boolean> => {
+  if (await canManageEvent(eventId, user)) return true;
+  return !!user && !!(await EventUserConnection.exists({ eventId, userId: user._id }));
+};
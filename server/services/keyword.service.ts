@@ -0,0 +1,110 @@
+import { Types } from 'mongoose';
+import Event, { IEvent } from '../models/event.model';
+import KeywordHit from '../models/keywordHit.model';
+import { compileKeywords, ICompiledKeyword, IKeywordMatch, matchKeywords } from '../utils/keywordMatcher';
+import { ISignal } from './signal.service';
+
+export type KeywordCategory = 'experience' | 'technical';
+
+export const KEYWORD_CATEGORIES: KeywordCategory[] = ['experience', 'technical'];
+
+const BUCKET_MS = 5 * 60 * 1000;
+const MAX_EXAMPLES = 5;
+
+type CompiledEventKeywords = { [category in KeywordCategory]: ICompiledKeyword[] };
+
+// Compiled keyword lists per event, rebuilt when the organizer edits the lists
+const compiled = new Map<string, { signature: string; keywords: CompiledEventKeywords }>();
+
+const eventKeywords = (event: IEvent): CompiledEventKeywords => {
+  const { experienceIssues = [], technicalIssues = [] } = event.keywordsMonitoring || {};
+  const signature = JSON.stringify([experienceIssues, technicalIssues]);
+
+  const cached = compiled.get(String(event._id));
+  if (cached?.signature === signature) return cached.keywords;
+
+  const keywords = {
+    experience: compileKeywords(experienceIssues),
+    technical: compileKeywords(technicalIssues),
+  };
+  compiled.set(String(event._id), { signature, keywords });
+  return keywords;
+};
+
+// Match text against one of the event's monitored keyword lists
+export const matchEventKeywords = (event: IEvent, text: string, category: KeywordCategory): IKeywordMatch[] =>
+  matchKeywords(text, eventKeywords(event)[category]);
+
+export const bucketStart = (date: Date) => new Date(Math.floor(date.getTime() / BUCKET_MS) * BUCKET_MS);
+
+// Store per-keyword hit counts for a new piece of attendee input in 5 minute buckets
+export const recordKeywordHits = async (eventId: string, signal: ISignal) => {
+  if (!signal.text) return;
+
+  const event = await Event.findById(eventId);
+  if (!event) return;
+
+  const bucket = bucketStart(signal.createdAt);
+  const example = {
+    source: signal.source,
+    id: new Types.ObjectId(signal.id),
+    text: signal.text.slice(0, 280),
+    createdAt: signal.createdAt,
+  };
+
+  const operations = KEYWORD_CATEGORIES.flatMap((category) =>
+    matchEventKeywords(event, signal.text, category).map(({ keyword, count }) => ({
+      updateOne: {
+        filter: { event: event._id, category, keyword, bucket },
+        update: {
+          $inc: { count, [`sources.${signal.source}`]: count },
+          $push: { examples: { $each: [example], $slice: -MAX_EXAMPLES } },
+        },
+        upsert: true,
+      },
+    }))
+  );
+
+  if (operations.length) {
+    await KeywordHit.bulkWrite(operations);
+  }
+};
+
+// Record keyword hits in the background so request handlers do not wait on it
+export const trackKeywords = (eventId: string | undefined, signal: ISignal) => {
+  if (!eventId) return;
+  recordKeywordHits(eventId, signal).catch((error) => console.error('[keywords]', error));
+};
+
+// Hit counts per keyword over [from, to), with the bucketed series for charts
+export const getKeywordTimeline = async (eventId: string, from: Date, to: Date, category?: KeywordCategory) => {
+  const match: { [key: string]: any } = {
+    event: new Types.ObjectId(eventId),
+    bucket: { $gte: bucketStart(from), $lt: to },
+  };
+  if (category) match.category = category;
+
+  return KeywordHit.aggregate([
+    { $match: match },
+    { $sort: { bucket: 1 } },
+    {
+      $group: {
+        _id: { category: '$category', keyword: '$keyword' },
+        total: { $sum: '$count' },
+        buckets: { $push: { bucket: '$bucket', count: '$count' } },
+        lastSeen: { $max: '$bucket' },
+      },
+    },
+    {
+      $project: {
+        _id: 0,
+        category: '$_id.category',
+        keyword: '$_id.keyword',
+        total: 1,
+        buckets: 1,
+        lastSeen: 1,
+      },
+    },
+    { $sort: { total: -1 } },
+  ]);
+};
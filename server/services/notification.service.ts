@@ -0,0 +1,249 @@
+import Event, { IEvent } from '../models/event.model';
+import { IAlert } from '../models/alert.model';
+import UserModel from '../models/user.model';
+import { durationToMs } from '../utils/duration';
+import { alertEvents } from './alertEngine.service';
+import { emailTransport } from './transports/email.transport';
+import { smsTransport } from './transports/sms.transport';
+import { pushTransport } from './transports/push.transport';
+import { localTransport } from './transports/local.transport';
+import {
+  INotification,
+  INotificationTransport,
+  IRecipient,
+  NotificationChannel,
+} from './transports/transport';
+
+type Severity = IAlert['severity'];
+
+// One step of an escalation chain: who to notify and whether it is the whole team
+export interface IEscalationStep {
+  level: number;
+  recipients: IEvent['alertRecipients'];
+  wholeTeam: boolean;
+}
+
+// NOTIFICATION_TRANSPORT=local sends every channel to the console/file transport
+const useLocal = process.env.NOTIFICATION_TRANSPORT === 'local';
+
+const transports: { [channel in NotificationChannel]: INotificationTransport } = {
+  email: useLocal ? localTransport : emailTransport,
+  sms: useLocal ? localTransport : smsTransport,
+  push: useLocal ? localTransport : pushTransport,
+};
+
+// Swap the transport used for a channel (e.g. a different SMS gateway)
+export const registerTransport = (channel: NotificationChannel, transport: INotificationTransport) => {
+  transports[channel] = transport;
+};
+
+// Primary recipients get every alert; the whole team gets critical ones or when asked for.
+// With an escalation policy, critical alerts start at the primary and escalate from there.
+const selectRecipients = (event: IEvent, severity: Severity, wholeTeam: boolean) => {
+  const teamForCritical = severity === 'critical' && !event.escalationPolicy?.enabled;
+  return event.alertRecipients.filter((recipient) => recipient.isPrimary || wholeTeam || teamForCritical);
+};
+
+// Organizer accounts behind the recipients, used for push notifications
+const resolveUsers = async (event: IEvent, recipients: IEvent['alertRecipients']): Promise<IRecipient[]> => {
+  const users = await UserModel.find({
+    $or: [{ _id: event.clientId }, { email: { $in: recipients.map((recipient) => recipient.email) } }],
+  });
+
+  return users.map((user) => ({
+    name: user.name,
+    email: user.email,
+    userId: String(user._id),
+  }));
+};
+
+const channelEnabled = (
+  settings: { enabled: boolean; critical: boolean; warning: boolean; info: boolean } | undefined,
+  severity: Severity
+) => !!settings?.enabled && !!settings[severity];
+
+// Work out which channels and recipients an alert (or one of its escalation steps) should reach
+export const buildNotifications = async (
+  alert: IAlert,
+  event: IEvent,
+  escalation?: IEscalationStep
+): Promise<INotification[]> => {
+  const methods = event.notificationMethods;
+  const severity = alert.severity;
+  const prefix = escalation ? `[ESCALATED ${escalation.level}] ` : '';
+  const subject = `${prefix}[${severity.toUpperCase()}] ${event.name}: ${alert.message}`;
+  const text = event.sentimentTracking?.alertMessage
+    ? `${alert.message}\n${event.sentimentTracking.alertMessage}`
+    : alert.message;
+
+  const templateData = (recipient: IRecipient) => ({
+    recipient,
+    event: { name: event.name, alertMessage: event.sentimentTracking?.alertMessage },
+    alert: {
+      id: String(alert._id),
+      severity,
+      message: alert.message,
+      evidence: alert.evidence.slice(0, 3),
+      raisedAt: alert.createdAt,
+      escalationLevel: escalation?.level,
+    },
+  });
+
+  const notification = (channel: NotificationChannel, recipient: IRecipient): INotification => ({
+    channel,
+    recipient,
+    subject,
+    text,
+    template: 'Alert-mail.ejs',
+    data: templateData(recipient),
+  });
+
+  const notifications: INotification[] = [];
+
+  const emailRecipients = escalation
+    ? escalation.recipients
+    : selectRecipients(event, severity, methods?.emailNotifications?.toEventTeam);
+  const pushRecipients = escalation ? escalation.recipients : selectRecipients(event, severity, false);
+
+  if (channelEnabled(methods?.emailNotifications, severity)) {
+    emailRecipients.forEach((recipient) => {
+      notifications.push(notification('email', { name: recipient.name, email: recipient.email }));
+    });
+  }
+
+  // The event phone is shared by the team, so escalations only text it once the whole team is paged
+  const smsAllowed = !escalation || escalation.wholeTeam;
+  if (channelEnabled(methods?.smsNotifications, severity) && methods.smsNotifications.phoneNumber && smsAllowed) {
+    notifications.push(notification('sms', { name: event.name, phone: methods.smsNotifications.phoneNumber }));
+  }
+
+  if (channelEnabled(methods?.pushNotifications, severity)) {
+    const users = await resolveUsers(event, pushRecipients);
+    users.forEach((user) => notifications.push(notification('push', user)));
+  }
+
+  return notifications;
+};
+
+// Non-critical alerts wait for the next digest unless the event wants them in realtime
+export const digestInterval = (event: IEvent, severity: Severity): number =>
+  severity === 'critical' ? 0 : durationToMs(event.sentimentTracking?.alertFrequency);
+
+// Work out the digest notifications for a batch of non-critical alerts of one event
+export const buildDigestNotifications = async (alerts: IAlert[], event: IEvent): Promise<INotification[]> => {
+  const methods = event.notificationMethods;
+  const severities = [...new Set(alerts.map((alert) => alert.severity))];
+  const enabled = (settings: Parameters<typeof channelEnabled>[0]) =>
+    severities.some((severity) => channelEnabled(settings, severity));
+
+  const frequency = event.sentimentTracking?.alertFrequency;
+  const subject = `[DIGEST] ${event.name}: ${alerts.length} alert${alerts.length === 1 ? '' : 's'}`;
+  const text = [subject, ...alerts.map((alert) => `- [${alert.severity.toUpperCase()}] ${alert.message}`)].join('\n');
+
+  const notification = (channel: NotificationChannel, recipient: IRecipient): INotification => ({
+    channel,
+    recipient,
+    subject,
+    text,
+    template: 'Alert-digest-mail.ejs',
+    data: {
+      recipient,
+      event: { name: event.name, alertMessage: event.sentimentTracking?.alertMessage },
+      digest: { frequency, from: alerts[0].createdAt },
+      alerts: alerts.map((alert) => ({
+        id: String(alert._id),
+        severity: alert.severity,
+        message: alert.message,
+        status: alert.status,
+        raisedAt: alert.createdAt,
+      })),
+    },
+  });
+
+  const notifications: INotification[] = [];
+
+  if (enabled(methods?.emailNotifications)) {
+    selectRecipients(event, 'info', methods.emailNotifications.toEventTeam).forEach((recipient) => {
+      notifications.push(notification('email', { name: recipient.name, email: recipient.email }));
+    });
+  }
+
+  if (enabled(methods?.smsNotifications) && methods.smsNotifications.phoneNumber) {
+    notifications.push(notification('sms', { name: event.name, phone: methods.smsNotifications.phoneNumber }));
+  }
+
+  if (enabled(methods?.pushNotifications)) {
+    const users = await resolveUsers(event, selectRecipients(event, 'info', false));
+    users.forEach((user) => notifications.push(notification('push', user)));
+  }
+
+  return notifications;
+};
+
+const describeRecipient = (recipient: IRecipient) =>
+  recipient.email || recipient.phone || recipient.userId || recipient.name;
+
+// Send through the channel transports and describe each outcome for the alert's log
+const sendAll = async (notifications: INotification[]) => {
+  const results = await Promise.allSettled(
+    notifications.map((notification) => transports[notification.channel].send(notification))
+  );
+
+  return results.map((result, index) => {
+    const { channel, recipient } = notifications[index];
+    return {
+      channel,
+      recipient: describeRecipient(recipient),
+      transport: transports[channel].name,
+      status: result.status === 'fulfilled' ? ('sent' as const) : ('failed' as const),
+      error: result.status === 'rejected' ? String(result.reason?.message || result.reason) : undefined,
+      sentAt: new Date(),
+    };
+  });
+};
+
+// Send an alert on every enabled channel and record the outcome on the alert
+export const dispatchAlert = async (alert: IAlert, escalation?: IEscalationStep): Promise<IAlert> => {
+  const event = await Event.findById(alert.event);
+  if (!event) {
+    throw new Error(`Event ${alert.event} not found for alert ${alert._id}`);
+  }
+
+  // Queued alerts are picked up by the digest worker at the event's alert frequency
+  if (!escalation && digestInterval(event, alert.severity) > 0) {
+    alert.digest = { queuedAt: new Date() };
+    await alert.save();
+    return alert;
+  }
+
+  const notifications = await buildNotifications(alert, event, escalation);
+  const logs = await sendAll(notifications);
+
+  logs.forEach((log) => alert.notifications.push({ ...log, escalationLevel: escalation?.level }));
+
+  await alert.save();
+  return alert;
+};
+
+// Send one digest for a batch of queued alerts and mark them as sent
+export const dispatchDigest = async (alerts: IAlert[], event: IEvent): Promise<IAlert[]> => {
+  const notifications = await buildDigestNotifications(alerts, event);
+  const logs = await sendAll(notifications);
+  const sentAt = new Date();
+
+  await Promise.all(
+    alerts.map((alert) => {
+      logs.forEach((log) => alert.notifications.push({ ...log, digest: true }));
+      alert.digest = { queuedAt: alert.digest?.queuedAt || sentAt, sentAt };
+      return alert.save();
+    })
+  );
+
+  return alerts;
+};
+
+export const startNotificationDispatcher = () => {
+  alertEvents.on('alert', (alert: IAlert) => {
+    dispatchAlert(alert).catch((error) => console.error('[notifications]', error));
+  });
+};
@@ -0,0 +1,141 @@
+import crypto from 'crypto';
+import { Document, Schema, Types } from 'mongoose';
+import User from '../models/user.model';
+import Event, { EventUserConnection } from '../models/event.model';
+import PIIVault, { PIISource } from '../models/piiVault.model';
+import { compileNames, ICompiledNames, IPIIRedaction, PIIType, PII_TYPES, redactPII } from '../utils/piiDetector';
+import { decryptText, encryptText, isEncryptionConfigured } from '../utils/encryption';
+
+const NAMES_TTL_MS = 10 * 60 * 1000;
+
+// Roles allowed to read the original of redacted text
+export const PII_RAW_ACCESS_ROLES = (process.env.PII_RAW_ACCESS_ROLES || 'admin').split(',').map((role) => role.trim());
+
+// One text of a document to redact in place
+export interface IPIITextField {
+  field: string;
+  text: string;
+  apply: (redacted: string) => void;
+}
+
+if (!isEncryptionConfigured()) {
+  console.error('[pii] PII_ENCRYPTION_KEY is not set: personal data is still redacted, but originals are not kept');
+}
+
+// Compiled names per event; the oldest entry is dropped once this many events are cached
+const MAX_CACHED_EVENTS = 500;
+const eventNames = new Map<string, { names: ICompiledNames; loadedAt: number }>();
+
+// People around one event: its attendees, its client and its alert recipients
+const getEventPeople = async (event: Types.ObjectId): Promise<string[]> => {
+  const [found, connections] = await Promise.all([
+    Event.findById(event).select('clientId alertRecipients.name').lean(),
+    EventUserConnection.find({ eventId: event }).select('userId').lean(),
+  ]);
+  const userIds = connections.map(({ userId }) => userId);
+  if (found?.clientId) userIds.push(found.clientId);
+
+  const users = await User.find({ _id: { $in: userIds } }).select('name').lean();
+  return [...users.map(({ name }) => name), ...(found?.alertRecipients || []).map(({ name }) => name)].filter(Boolean);
+};
+
+// Names of the event's own people, reloaded every few minutes; text outside any event gets none
+const getKnownNames = async (event?: Types.ObjectId): Promise<ICompiledNames> => {
+  if (!event) return compileNames([]);
+
+  const cached = eventNames.get(String(event));
+  if (cached && Date.now() - cached.loadedAt < NAMES_TTL_MS) return cached.names;
+
+  const people = await getEventPeople(event);
+  const names = compileNames(people, people);
+  eventNames.delete(String(event));
+  eventNames.set(String(event), { names, loadedAt: Date.now() });
+  if (eventNames.size > MAX_CACHED_EVENTS) eventNames.delete(eventNames.keys().next().value as string);
+  return names;
+};
+
+const hashText = (text: string) => crypto.createHash('sha256').update(text).digest('hex');
+
+// Redact a text that leaves the platform, e.g. an LLM prompt; nothing is kept.
+// Names are only known within an event; stored attendee text was already redacted with them when saved.
+export const redactText = async (text: string, event?: Types.ObjectId): Promise<IPIIRedaction> =>
+  redactPII(text, await getKnownNames(event));
+
+// Redact fields of a document in place and keep their originals encrypted in the vault; without a key the originals
+// are lost. A field saved again unchanged still matches its redacted hash, so its original is kept.
+// Returns the kinds found.
+const protectFields = async (
+  source: PIISource,
+  document: Types.ObjectId,
+  event: Types.ObjectId | undefined,
+  fields: IPIITextField[]
+): Promise<PIIType[]> => {
+  const names = await getKnownNames(event);
+  const found = new Set<PIIType>();
+
+  for (const { field, text, apply } of fields) {
+    const { text: redacted, types } = redactPII(text, names);
+
+    if (!types.length) {
+      await PIIVault.deleteOne({ document, field, redactedHash: { $ne: hashText(text) } });
+      continue;
+    }
+
+    // Redacted text may be shown publicly, so it is redacted even when its original cannot be kept
+    apply(redacted);
+    types.forEach((type) => found.add(type));
+    if (!isEncryptionConfigured()) {
+      console.error(`[pii] PII_ENCRYPTION_KEY is not set; the original of ${source} ${document} ${field} is not kept`);
+      continue;
+    }
+
+    await PIIVault.updateOne(
+      { document, field },
+      { source, types, original: encryptText(text), redactedHash: hashText(redacted) },
+      { upsert: true }
+    );
+  }
+  return [...found];
+};
+
+// Fields among top-level string paths that are new or changed since the document was loaded
+export const modifiedTextFields = (doc: Document, paths: string[]): IPIITextField[] =>
+  paths
+    .filter((path) => doc.isNew || doc.isModified(path))
+    .map((path) => ({ field: path, text: doc.get(path) || '', apply: (redacted: string) => doc.set(path, redacted) }));
+
+// Schema plugin: redact the fields returned by `fields` before every save and record what was found in piiTypes
+export const piiRedactionPlugin = (
+  schema: Schema,
+  options: {
+    source: PIISource;
+    // Event the document belongs to, whose people's single names are redacted too
+    event: (doc: any) => Types.ObjectId | undefined;
+    fields: (doc: any) => IPIITextField[];
+  }
+) => {
+  schema.add({ piiTypes: [{ type: String, enum: PII_TYPES }] });
+
+  schema.pre('save', async function () {
+    const fields = options.fields(this);
+    if (!fields.length) return;
+
+    const found = await protectFields(options.source, this._id as Types.ObjectId, options.event(this), fields);
+    // Kinds found now plus those still redacted in fields this save did not touch
+    const stored: PIIType[] = await PIIVault.distinct('types', { document: this._id });
+    this.set('piiTypes', PII_TYPES.filter((type) => found.includes(type) || stored.includes(type)));
+  });
+
+  schema.post('deleteOne', { document: true, query: false }, async function () {
+    await PIIVault.deleteMany({ document: this._id });
+  });
+};
+
+// Decrypted originals of a document's redacted fields, one entry per field
+export const getOriginalTexts = async (
+  source: PIISource,
+  id: string
+): Promise<{ field: string; types: PIIType[]; text: string }[]> => {
+  const entries = await PIIVault.find({ source, document: new Types.ObjectId(id) });
+  return entries.map(({ field, types, original }) => ({ field, types, text: decryptText(original) }));
+};
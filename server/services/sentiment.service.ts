@@ -0,0 +1,282 @@
+import { Types } from 'mongoose';
+import { UserFeedback } from '../models/feedback.model';
+import ShortFeedback from '../models/shortFeedback.model';
+import Issue from '../models/issue.model';
+import { ISentimentScore } from '../models/sentiment.schema';
+import { feedbackToSignal, getEventEmojiValences, issueToSignal, SignalSource } from './signal.service';
+
+// Base URL of the sentiment service (sentiment-app); scoring is skipped when unset
+const SENTIMENT_SERVICE_URL = process.env.SENTIMENT_SERVICE_URL;
+// The service's MODEL_ADMIN_TOKEN, needed only to look up its active model version
+const SENTIMENT_ADMIN_TOKEN = process.env.SENTIMENT_ADMIN_TOKEN;
+// The service's SCORING_TOKEN, without which it does not record scores
+const SENTIMENT_SCORING_TOKEN = process.env.SENTIMENT_SCORING_TOKEN;
+const REQUEST_TIMEOUT_MS = parseInt(process.env.SENTIMENT_TIMEOUT_MS || '5000', 10);
+const MAX_RETRIES = parseInt(process.env.SENTIMENT_MAX_RETRIES || '2', 10);
+const RETRY_BASE_MS = 250;
+// Consecutive failed requests that open the circuit, and how long it stays open before one probe is let through
+const BREAKER_THRESHOLD = parseInt(process.env.SENTIMENT_BREAKER_THRESHOLD || '5', 10);
+const BREAKER_RESET_MS = parseInt(process.env.SENTIMENT_BREAKER_RESET_MS || '30000', 10);
+const QUEUE_LIMIT = parseInt(process.env.SENTIMENT_QUEUE_LIMIT || '5000', 10);
+
+// What the sentiment service returns for one scored text
+export interface SentimentResult {
+  sentiment: ISentimentScore['label'];
+  confidence: number;
+  probabilities: ISentimentScore['probabilities'];
+  modelVersion: string | null;
+  analyzer: ISentimentScore['analyzer'];
+  language: string;
+}
+
+interface ScoreRequest {
+  text: string;
+  eventId: string;
+  channel: SignalSource;
+  zone?: string;
+  // false re-scores without adding the text to the event's sentiment series a second time
+  record: boolean;
+}
+
+interface ScoringJob {
+  source: SignalSource;
+  id: string;
+  record: boolean;
+}
+
+export type BreakerState = 'closed' | 'open' | 'half-open';
+
+class SentimentRequestError extends Error {
+  // Timeouts, network errors, 429 and 5xx are worth another attempt; other 4xx are not
+  constructor(message: string, public retryable: boolean, public status?: number) {
+    super(message);
+  }
+}
+
+// Circuit breaker shared by every request to the service
+let consecutiveFailures = 0;
+let openUntil = 0;
+let probing = false;
+
+export const getBreakerState = (): BreakerState =>
+  Date.now() < openUntil ? 'open' : consecutiveFailures >= BREAKER_THRESHOLD ? 'half-open' : 'closed';
+
+const recordOutcome = (healthy: boolean) => {
+  if (healthy) {
+    consecutiveFailures = 0;
+    openUntil = 0;
+    return;
+  }
+  consecutiveFailures += 1;
+  if (consecutiveFailures >= BREAKER_THRESHOLD) openUntil = Date.now() + BREAKER_RESET_MS;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// 250ms, 500ms, 1s ... with up to 10% jitter
+const retryDelay = (attempt: number) => {
+  const delay = RETRY_BASE_MS * 2 ** (attempt - 1);
+  return delay + Math.floor(Math.random() * delay * 0.1);
+};
+
+const attempt = async <T>(path: string, init: RequestInit): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(`${SENTIMENT_SERVICE_URL}${path}`, {
+      ...init,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch (error: any) {
+    throw new SentimentRequestError(error.message || String(error), true);
+  }
+
+  if (!response.ok) {
+    const retryable = response.status === 429 || response.status >= 500;
+    throw new SentimentRequestError(`Sentiment service responded with ${response.status}`, retryable, response.status);
+  }
+  return (await response.json()) as T;
+};
+
+// One logical request: retried with backoff, guarded by the circuit breaker
+const request = async <T>(path: string, init: RequestInit): Promise<T> => {
+  if (!SENTIMENT_SERVICE_URL) throw new SentimentRequestError('SENTIMENT_SERVICE_URL is not set', false);
+
+  const state = getBreakerState();
+  if (state === 'open' || (state === 'half-open' && probing)) {
+    throw new SentimentRequestError('Sentiment service circuit is open', false);
+  }
+  if (state === 'half-open') probing = true;
+
+  try {
+    for (let retry = 0; ; retry++) {
+      try {
+        const result = await attempt<T>(path, init);
+        recordOutcome(true);
+        return result;
+      } catch (error) {
+        const retryable = error instanceof SentimentRequestError && error.retryable;
+        // A rejected request still means the service is up
+        if (!retryable || retry >= MAX_RETRIES || state === 'half-open') {
+          recordOutcome(!retryable);
+          throw error;
+        }
+        await sleep(retryDelay(retry + 1));
+      }
+    }
+  } finally {
+    if (state === 'half-open') probing = false;
+  }
+};
+
+const post = <T>(path: string, body: unknown) =>
+  request<T>(path, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(SENTIMENT_SCORING_TOKEN && { Authorization: `Bearer ${SENTIMENT_SCORING_TOKEN}` }),
+    },
+    body: JSON.stringify(body),
+  });
+
+const scoreText = ({ record, ...body }: ScoreRequest): Promise<SentimentResult> =>
+  post<SentimentResult>(`/api/v1/feedback?record=${record}`, body);
+
+const scoreShortFeedback = async (id: string, record: boolean): Promise<SentimentResult | null> => {
+  const shortFeedback = await ShortFeedback.findById(id);
+  if (!shortFeedback) return null;
+
+  return post<SentimentResult>(`/api/v1/feedback/short?record=${record}`, {
+    eventId: String(shortFeedback.event),
+    zone: shortFeedback.zone || undefined,
+    emoji: shortFeedback.emoji,
+    description: shortFeedback.description || undefined,
+    valences: await getEventEmojiValences(String(shortFeedback.event)),
+  });
+};
+
+// Version of the model the service is running, or null when it cannot tell (no admin token, no model loaded)
+export const getActiveModelVersion = async (): Promise<string | null> => {
+  if (!SENTIMENT_ADMIN_TOKEN) return null;
+  const status = await request<{ active: { version: string } | null }>('/api/v1/models', {
+    headers: { Authorization: `Bearer ${SENTIMENT_ADMIN_TOKEN}` },
+  });
+  return status.active?.version ?? null;
+};
+
+const toSentimentScore = (result: SentimentResult): ISentimentScore => ({
+  label: result.sentiment,
+  confidence: result.confidence,
+  probabilities: result.probabilities,
+  modelVersion: result.modelVersion,
+  analyzer: result.analyzer,
+  language: result.language,
+  scoredAt: new Date(),
+});
+
+// Score one document and store the verdict on it; documents without text are left unscored
+const scoreDocument = async ({ source, id, record }: ScoringJob): Promise<void> => {
+  if (source === 'shortFeedback') {
+    const result = await scoreShortFeedback(id, record);
+    if (result) await ShortFeedback.updateOne({ _id: id }, { sentiment: toSentimentScore(result) });
+    return;
+  }
+
+  if (source === 'feedback') {
+    const feedback = await UserFeedback.findById(id);
+    const text = feedback && feedbackToSignal(feedback).text;
+    if (!feedback || !text) return;
+
+    const result = await scoreText({ text, eventId: String(feedback.eventId), channel: source, record });
+    await UserFeedback.updateOne({ _id: id }, { sentiment: toSentimentScore(result) });
+    return;
+  }
+
+  const issue = await Issue.findById(id);
+  if (!issue) return;
+
+  const { text, zone } = issueToSignal(issue);
+  const result = await scoreText({ text, eventId: String(issue.event), channel: source, zone, record });
+  await Issue.updateOne({ _id: id }, { sentiment: toSentimentScore(result) });
+};
+
+// Scoring runs in the background so submissions never wait on the sentiment service
+const queue: ScoringJob[] = [];
+const queued = new Set<string>();
+let draining = false;
+let dropped = 0;
+
+const jobKey = ({ source, id }: ScoringJob) => `${source}:${id}`;
+
+const drain = async () => {
+  if (draining) return;
+  draining = true;
+
+  try {
+    while (queue.length) {
+      // Wait out an open circuit instead of failing every job in the queue
+      const waitMs = openUntil - Date.now();
+      if (waitMs > 0) await sleep(waitMs);
+
+      const job = queue.shift()!;
+      queued.delete(jobKey(job));
+      try {
+        await scoreDocument(job);
+      } catch (error) {
+        console.error('[sentiment]', jobKey(job), error);
+      }
+    }
+  } finally {
+    draining = false;
+  }
+};
+
+// Queue a document for scoring; false when scoring is disabled or the queue is full
+export const queueSentimentScoring = (source: SignalSource, id: string, record = true): boolean => {
+  if (!SENTIMENT_SERVICE_URL) return false;
+
+  const job = { source, id, record };
+  if (queued.has(jobKey(job))) return true;
+  if (queue.length >= QUEUE_LIMIT) {
+    dropped += 1;
+    return false;
+  }
+
+  queue.push(job);
+  queued.add(jobKey(job));
+  drain();
+  return true;
+};
+
+// Queue every document of an event not yet scored by modelVersion, without re-recording it in the series
+export const rescoreEventSentiment = async (eventId: string, modelVersion: string) => {
+  const event = new Types.ObjectId(eventId);
+  const stale = { 'sentiment.modelVersion': { $ne: modelVersion } };
+  // Emoji-only short feedback never goes through the model
+  const shortFeedbackFilter = { event, ...stale, description: { $nin: [null, ''] } };
+
+  const [feedback, shortFeedback, issues] = await Promise.all([
+    UserFeedback.find({ eventId: event, status: 'submitted', ...stale }).select('_id'),
+    ShortFeedback.find(shortFeedbackFilter).select('_id'),
+    Issue.find({ event, ...stale }).select('_id'),
+  ]);
+
+  const enqueue = (source: SignalSource, ids: { _id: unknown }[]) =>
+    ids.filter(({ _id }) => queueSentimentScoring(source, String(_id), false)).length;
+
+  return {
+    modelVersion,
+    queued: {
+      feedback: enqueue('feedback', feedback),
+      shortFeedback: enqueue('shortFeedback', shortFeedback),
+      issue: enqueue('issue', issues),
+    },
+  };
+};
+
+export const getSentimentQueueStatus = () => ({
+  enabled: !!SENTIMENT_SERVICE_URL,
+  pending: queue.length,
+  dropped,
+  breaker: getBreakerState(),
+  consecutiveFailures,
+});
@@ -0,0 +1,121 @@
+import { Types } from 'mongoose';
+import { IEvent } from '../models/event.model';
+import EventDetail, { IEventDetail, IFloor, ILocation } from '../models/event.detail.model';
+import SentimentShift, { ISentimentShift } from '../models/sentimentShift.model';
+import { redis } from '../utils/redis';
+import { ISignal } from './signal.service';
+
+// Last 15 minutes compared with the hour before them
+export const SHIFT_WINDOW = parseInt(process.env.SHIFT_WINDOW_MS || String(15 * 60 * 1000), 10);
+export const SHIFT_BASELINE = parseInt(process.env.SHIFT_BASELINE_MS || String(60 * 60 * 1000), 10);
+
+// Moves smaller than this many points of negative share are noise
+const MIN_POINTS = parseFloat(process.env.SHIFT_MIN_POINTS || '10');
+const MIN_SAMPLES = parseInt(process.env.ALERT_MIN_SAMPLES || '5', 10);
+
+export const ALL_ZONES = 'all';
+
+export interface IShift {
+  zone: string;
+  zoneName?: string;
+  direction: 'negative' | 'positive';
+  magnitude: number;
+  currentNegativePercent: number;
+  previousNegativePercent: number;
+  currentSamples: number;
+  previousSamples: number;
+  windowStart: Date;
+  windowEnd: Date;
+  evidence: ISignal[];
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// Compare negative share per zone (and for the whole event) between the window and its baseline
+export const computeShifts = (event: IEvent, signals: ISignal[], now: Date = new Date()): IShift[] => {
+  const windowStart = new Date(now.getTime() - SHIFT_WINDOW);
+  const baselineStart = new Date(windowStart.getTime() - SHIFT_BASELINE);
+  const { negativeThreshold } = event.sentimentTracking;
+
+  const zones = new Map<string, { current: ISignal[]; previous: ISignal[] }>();
+  const add = (zone: string, signal: ISignal) => {
+    if (!zones.has(zone)) zones.set(zone, { current: [], previous: [] });
+    const group = zones.get(zone)!;
+    if (signal.createdAt >= windowStart) group.current.push(signal);
+    else group.previous.push(signal);
+  };
+
+  signals
+    .filter((signal) => signal.createdAt >= baselineStart && signal.createdAt < now)
+    .forEach((signal) => {
+      add(ALL_ZONES, signal);
+      if (signal.zone) add(signal.zone, signal);
+    });
+
+  const shifts: IShift[] = [];
+
+  zones.forEach(({ current, previous }, zone) => {
+    if (current.length < MIN_SAMPLES || previous.length < MIN_SAMPLES) return;
+
+    const currentNegative = current.filter((signal) => signal.score <= negativeThreshold);
+    const currentPercent = (currentNegative.length / current.length) * 100;
+    const previousPercent =
+      (previous.filter((signal) => signal.score <= negativeThreshold).length / previous.length) * 100;
+    const delta = currentPercent - previousPercent;
+
+    if (Math.abs(delta) < MIN_POINTS) return;
+
+    shifts.push({
+      zone,
+      direction: delta > 0 ? 'negative' : 'positive',
+      magnitude: round(Math.abs(delta)),
+      currentNegativePercent: round(currentPercent),
+      previousNegativePercent: round(previousPercent),
+      currentSamples: current.length,
+      previousSamples: previous.length,
+      windowStart,
+      windowEnd: now,
+      evidence: delta > 0 ? currentNegative : current.filter((signal) => signal.score > negativeThreshold),
+    });
+  });
+
+  return shifts.sort((a, b) => b.magnitude - a.magnitude);
+};
+
+// Zone ids are venue location ids; look up their names from the event's venue layout
+const resolveZoneNames = async (eventId: string): Promise<Map<string, string>> => {
+  const names = new Map<string, string>();
+  const details = await EventDetail.find({ eventId }).lean<IEventDetail[]>();
+
+  details.forEach((detail) => {
+    detail.floors?.forEach((floor: IFloor & { _id?: Types.ObjectId }) => {
+      if (floor._id) names.set(String(floor._id), floor.name);
+      floor.locations?.forEach((location: ILocation & { _id?: Types.ObjectId }) => {
+        if (location._id) names.set(String(location._id), `${floor.name} / ${location.name}`);
+      });
+    });
+  });
+
+  return names;
+};
+
+// Persist shifts for the trend chart, once per zone and direction per window
+export const recordShifts = async (event: IEvent, shifts: IShift[]): Promise<ISentimentShift[]> => {
+  if (!shifts.length) return [];
+
+  const eventId = String(event._id);
+  const names = await resolveZoneNames(eventId);
+  const recorded: ISentimentShift[] = [];
+
+  for (const shift of shifts) {
+    shift.zoneName = shift.zone === ALL_ZONES ? undefined : names.get(shift.zone);
+
+    const key = `shift:${eventId}:${shift.zone}:${shift.direction}`;
+    if ((await redis.set(key, Date.now(), 'PX', SHIFT_WINDOW, 'NX')) !== 'OK') continue;
+
+    const { evidence, ...fields } = shift;
+    recorded.push(await SentimentShift.create({ event: event._id, ...fields }));
+  }
+
+  return recorded;
+};
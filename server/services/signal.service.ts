@@ -0,0 +1,111 @@
+import { Types } from 'mongoose';
+import Event from '../models/event.model';
+import { UserFeedback, IFeedback } from '../models/feedback.model';
+import ShortFeedback, { IShortFeedback } from '../models/shortFeedback.model';
+import Issue, { IIssue } from '../models/issue.model';
+
+export type SignalSource = 'feedback' | 'shortFeedback' | 'issue';
+
+// A single piece of attendee input normalised to a 0-100 sentiment score
+export interface ISignal {
+  id: string;
+  source: SignalSource;
+  score: number;
+  text: string;
+  category?: string;
+  zone?: string;
+  createdAt: Date;
+}
+
+export type EmojiValences = { [emoji: string]: number };
+
+// Valence (-1..1) of the reactions offered in the attendee app; events can override them with emojiValences
+export const DEFAULT_EMOJI_VALENCES: EmojiValences = {
+  '😍': 1,
+  '😊': 0.5,
+  '😐': 0,
+  '😕': -0.5,
+  '😞': -1,
+};
+
+export const emojiValence = (emoji: string, overrides: EmojiValences = {}) =>
+  overrides[emoji] ?? DEFAULT_EMOJI_VALENCES[emoji] ?? 0;
+
+// An event's emoji overrides as a plain object
+export const getEventEmojiValences = async (eventId: string): Promise<EmojiValences> => {
+  const event = await Event.findById(eventId).select('emojiValences');
+  return event?.emojiValences ? Object.fromEntries(event.emojiValences) : {};
+};
+
+const issueSeverityScores: { [severity: string]: number } = {
+  low: 30,
+  medium: 20,
+  high: 10,
+  critical: 0,
+};
+
+export const feedbackToSignal = (feedback: IFeedback): ISignal => {
+  const ratings: number[] = [];
+  const texts: string[] = [];
+
+  feedback.formFields.forEach(({ value, field }) => {
+    if (value === null || value === undefined || value === '') return;
+    if (field?.type === 'rating' && !isNaN(Number(value))) {
+      ratings.push(Number(value));
+    }
+    if (field?.type === 'text' && typeof value === 'string') {
+      texts.push(value);
+    }
+  });
+
+  // Ratings are 1-5 stars; feedback without ratings counts as neutral
+  const score = ratings.length
+    ? ((ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length - 1) / 4) * 100
+    : 50;
+
+  return {
+    id: String(feedback._id),
+    source: 'feedback',
+    score: Math.max(0, Math.min(100, score)),
+    text: texts.join('\n'),
+    createdAt: feedback.createdAt,
+  };
+};
+
+export const shortFeedbackToSignal = (shortFeedback: IShortFeedback, valences: EmojiValences = {}): ISignal => ({
+  id: String(shortFeedback._id),
+  source: 'shortFeedback',
+  score: (emojiValence(shortFeedback.emoji, valences) + 1) * 50,
+  text: shortFeedback.description || '',
+  zone: shortFeedback.zone || undefined,
+  createdAt: shortFeedback.createdAt,
+});
+
+export const issueToSignal = (issue: IIssue): ISignal => ({
+  id: String(issue._id),
+  source: 'issue',
+  score: issueSeverityScores[issue.severity] ?? 20,
+  text: `${issue.title}\n${issue.description}`,
+  category: issue.category,
+  zone: issue.location ? String(issue.location) : undefined,
+  createdAt: issue.createdAt,
+});
+
+// Collect all feedback, short feedback and issues of an event within [from, to)
+export const collectSignals = async (eventId: string, from: Date, to: Date): Promise<ISignal[]> => {
+  const event = new Types.ObjectId(eventId);
+  const createdAt = { $gte: from, $lt: to };
+
+  const [feedback, shortFeedback, issues, valences] = await Promise.all([
+    UserFeedback.find({ eventId: event, status: 'submitted', createdAt }),
+    ShortFeedback.find({ event, createdAt }),
+    Issue.find({ event, createdAt }),
+    getEventEmojiValences(eventId),
+  ]);
+
+  return [
+    ...feedback.map(feedbackToSignal),
+    ...shortFeedback.map((item) => shortFeedbackToSignal(item, valences)),
+    ...issues.map(issueToSignal),
+  ].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+};
@@ -0,0 +1,19 @@
+import sendMail from '../../utils/sendMail';
+import { INotification, INotificationTransport } from './transport';
+
+// SMTP delivery through the shared mail helper
+export const emailTransport: INotificationTransport = {
+  name: 'smtp',
+  send: async (notification: INotification) => {
+    if (!notification.recipient.email) {
+      throw new Error(`Recipient ${notification.recipient.name} has no email address`);
+    }
+
+    await sendMail({
+      email: notification.recipient.email,
+      subject: notification.subject,
+      template: notification.template,
+      data: notification.data,
+    });
+  },
+};
@@ -0,0 +1,24 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { INotification, INotificationTransport } from './transport';
+
+const LOG_FILE = process.env.NOTIFICATION_LOG_FILE || path.join(__dirname, '../../logs/notifications.log');
+
+// Writes notifications to the console and a local log file for offline testing
+export const localTransport: INotificationTransport = {
+  name: 'local',
+  send: async (notification: INotification) => {
+    const entry = {
+      channel: notification.channel,
+      to: notification.recipient,
+      subject: notification.subject,
+      text: notification.text,
+      sentAt: new Date().toISOString(),
+    };
+
+    console.log(`[notification:${notification.channel}]`, notification.recipient.name, '-', notification.subject);
+
+    await fs.mkdir(path.dirname(LOG_FILE), { recursive: true });
+    await fs.appendFile(LOG_FILE, `${JSON.stringify(entry)}\n`);
+  },
+};
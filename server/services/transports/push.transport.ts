@@ -0,0 +1,55 @@
+import webpush from 'web-push';
+import PushSubscription from '../../models/pushSubscription.model';
+import { INotification, INotificationTransport } from './transport';
+
+let configured = false;
+
+const configureVapid = () => {
+  if (configured) return;
+
+  if (!process.env.VAPID_PUBLIC_KEY || !process.env.VAPID_PRIVATE_KEY) {
+    throw new Error('VAPID keys are not configured');
+  }
+
+  webpush.setVapidDetails(
+    process.env.VAPID_SUBJECT || `mailto:${process.env.SMTP_MAIL}`,
+    process.env.VAPID_PUBLIC_KEY,
+    process.env.VAPID_PRIVATE_KEY
+  );
+  configured = true;
+};
+
+// Web push delivery to every browser the recipient has subscribed
+export const pushTransport: INotificationTransport = {
+  name: 'web-push',
+  send: async (notification: INotification) => {
+    if (!notification.recipient.userId) {
+      throw new Error(`Recipient ${notification.recipient.name} has no user account`);
+    }
+
+    configureVapid();
+
+    const subscriptions = await PushSubscription.find({ user: notification.recipient.userId });
+    const payload = JSON.stringify({
+      title: notification.subject,
+      body: notification.text,
+      data: notification.data,
+    });
+
+    for (const subscription of subscriptions) {
+      try {
+        await webpush.sendNotification(
+          { endpoint: subscription.endpoint, keys: subscription.keys },
+          payload
+        );
+      } catch (error: any) {
+        // The browser dropped the subscription, so stop sending to it
+        if (error.statusCode === 404 || error.statusCode === 410) {
+          await subscription.deleteOne();
+          continue;
+        }
+        throw error;
+      }
+    }
+  },
+};
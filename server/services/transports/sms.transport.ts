@@ -0,0 +1,59 @@
+import { INotification, INotificationTransport } from './transport';
+
+// Anything that can deliver a text message to a phone number
+export interface ISmsProvider {
+  name: string;
+  sendSms: (to: string, body: string) => Promise<void>;
+}
+
+// Twilio REST API provider
+export const twilioProvider: ISmsProvider = {
+  name: 'twilio',
+  sendSms: async (to: string, body: string) => {
+    const accountSid = process.env.TWILIO_ACCOUNT_SID;
+    const authToken = process.env.TWILIO_AUTH_TOKEN;
+    const from = process.env.TWILIO_FROM_NUMBER;
+
+    if (!accountSid || !authToken || !from) {
+      throw new Error('Twilio credentials are not configured');
+    }
+
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({ To: to, From: from, Body: body }).toString(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Twilio responded with ${response.status}: ${await response.text()}`);
+    }
+  },
+};
+
+const smsProviders: { [name: string]: ISmsProvider } = {
+  twilio: twilioProvider,
+};
+
+export const registerSmsProvider = (provider: ISmsProvider) => {
+  smsProviders[provider.name] = provider;
+};
+
+// SMS delivery through the provider named in SMS_PROVIDER
+export const smsTransport: INotificationTransport = {
+  name: 'sms',
+  send: async (notification: INotification) => {
+    const provider = smsProviders[process.env.SMS_PROVIDER || 'twilio'];
+
+    if (!provider) {
+      throw new Error(`Unknown SMS provider ${process.env.SMS_PROVIDER}`);
+    }
+    if (!notification.recipient.phone) {
+      throw new Error(`Recipient ${notification.recipient.name} has no phone number`);
+    }
+
+    await provider.sendSms(notification.recipient.phone, `${notification.subject}\n${notification.text}`);
+  },
+};
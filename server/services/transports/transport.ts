@@ -0,0 +1,23 @@
+export type NotificationChannel = 'email' | 'sms' | 'push';
+
+export interface IRecipient {
+  name: string;
+  email?: string;
+  phone?: string;
+  userId?: string;
+}
+
+// A rendered notification for a single recipient on a single channel
+export interface INotification {
+  channel: NotificationChannel;
+  recipient: IRecipient;
+  subject: string;
+  text: string;
+  template: string;
+  data: { [key: string]: any };
+}
+
+export interface INotificationTransport {
+  name: string;
+  send: (notification: INotification) => Promise<void>;
+}
@@ -0,0 +1,163 @@
+import Event from '../models/event.model';
+import { stem, tokenize } from '../utils/keywordMatcher';
+import { collectSignals, ISignal } from './signal.service';
+import { KEYWORD_CATEGORIES, matchEventKeywords } from './keyword.service';
+
+const MINUTE = 60 * 1000;
+const DEFAULT_WINDOW = 15 * MINUTE;
+const DEFAULT_BASELINE = 2 * 60 * MINUTE;
+// Longest window and baseline a request may ask for; both bound the signal query
+export const MAX_TREND_WINDOW = 6 * 60 * MINUTE;
+export const MAX_TREND_BASELINE = 24 * 60 * MINUTE;
+
+// A term is only a spike when it is repeated this often and this far above its baseline
+const MIN_SPIKE_COUNT = parseInt(process.env.TREND_MIN_SPIKE_COUNT || '3', 10);
+const MIN_Z_SCORE = parseFloat(process.env.TREND_MIN_Z_SCORE || '3');
+const MAX_TERMS = 20;
+const MAX_EXAMPLES = 3;
+
+const STOPWORDS = new Set(
+  (
+    'a an and are as at be been but by can do for from had has have i if in into is it its just me my no ' +
+    'of on or our so than that the their them then there these they this to too was we were what when ' +
+    'where which who will with you your very really also all any some more most not'
+  ).split(' ')
+);
+
+export type TrendSentiment = 'positive' | 'neutral' | 'negative';
+
+export interface ITrendExample {
+  source: ISignal['source'];
+  id: string;
+  text: string;
+  createdAt: Date;
+}
+
+export interface ITermTrend {
+  term: string;
+  monitored: boolean;
+  count: number;
+  baselineCount: number;
+  expected: number;
+  ratio: number;
+  zScore: number;
+  isSpike: boolean;
+  sentiment: TrendSentiment;
+  examples: ITrendExample[];
+}
+
+interface ITermCounter {
+  surfaces: Map<string, number>;
+  monitored: boolean;
+  current: ISignal[];
+  baseline: number;
+}
+
+// Words and two-word phrases in a message, keyed by stem so "crashes" and "crashing" count together
+const extractTerms = (text: string): Map<string, string> => {
+  const words = tokenize(text).filter((word) => word.length > 2 && !STOPWORDS.has(word) && isNaN(Number(word)));
+  const terms = new Map<string, string>();
+
+  words.forEach((word, index) => {
+    terms.set(stem(word), word);
+    if (index > 0) {
+      terms.set(`${stem(words[index - 1])} ${stem(word)}`, `${words[index - 1]} ${word}`);
+    }
+  });
+
+  return terms;
+};
+
+const mostCommon = (surfaces: Map<string, number>) =>
+  [...surfaces.entries()].sort((a, b) => b[1] - a[1])[0][0];
+
+// Compare each term's rate in the current window against its rate over the preceding baseline
+export const detectTrendSpikes = async (
+  eventId: string,
+  now: Date = new Date(),
+  window: number = DEFAULT_WINDOW,
+  baseline: number = DEFAULT_BASELINE
+): Promise<ITermTrend[]> => {
+  const event = await Event.findById(eventId);
+  if (!event) return [];
+
+  window = Math.min(window, MAX_TREND_WINDOW);
+  baseline = Math.min(baseline, MAX_TREND_BASELINE);
+  const windowStart = new Date(now.getTime() - window);
+  const baselineStart = new Date(windowStart.getTime() - baseline);
+  const signals = await collectSignals(eventId, baselineStart, now);
+
+  const counters = new Map<string, ITermCounter>();
+  const counter = (key: string, monitored: boolean) => {
+    let entry = counters.get(key);
+    if (!entry) {
+      entry = { surfaces: new Map(), monitored, current: [], baseline: 0 };
+      counters.set(key, entry);
+    }
+    entry.monitored = entry.monitored || monitored;
+    return entry;
+  };
+
+  signals.forEach((signal) => {
+    if (!signal.text) return;
+    const inWindow = signal.createdAt >= windowStart;
+
+    // Monitored keywords keep their organizer spelling; other terms are counted once per message
+    const terms = extractTerms(signal.text);
+    const monitored = KEYWORD_CATEGORIES.flatMap((category) => matchEventKeywords(event, signal.text, category));
+    monitored.forEach(({ keyword }) => terms.set(`keyword:${keyword.toLowerCase()}`, keyword));
+
+    terms.forEach((surface, key) => {
+      const entry = counter(key, key.startsWith('keyword:'));
+      entry.surfaces.set(surface, (entry.surfaces.get(surface) || 0) + 1);
+      if (inWindow) {
+        entry.current.push(signal);
+      } else {
+        entry.baseline++;
+      }
+    });
+  });
+
+  const { positiveThreshold, negativeThreshold } = event.sentimentTracking;
+
+  const trends = [...counters.values()]
+    .filter((entry) => entry.current.length > 0 && (entry.monitored || entry.current.length > 1))
+    .map((entry): ITermTrend => {
+      const count = entry.current.length;
+      // Poisson z-score with a floor on the expectation so brand new terms need real volume to spike
+      const expected = (entry.baseline / baseline) * window;
+      const floor = Math.max(expected, 0.5);
+      const zScore = (count - floor) / Math.sqrt(floor);
+      const averageScore = entry.current.reduce((sum, signal) => sum + signal.score, 0) / count;
+
+      return {
+        term: mostCommon(entry.surfaces),
+        monitored: entry.monitored,
+        count,
+        baselineCount: entry.baseline,
+        expected: Math.round(expected * 100) / 100,
+        ratio: Math.round((count / floor) * 100) / 100,
+        zScore: Math.round(zScore * 100) / 100,
+        isSpike: count >= MIN_SPIKE_COUNT && zScore >= MIN_Z_SCORE,
+        sentiment:
+          averageScore <= negativeThreshold ? 'negative' : averageScore >= positiveThreshold ? 'positive' : 'neutral',
+        examples: entry.current.slice(-MAX_EXAMPLES).reverse().map(({ source, id, text, createdAt }) => ({
+          source,
+          id,
+          text,
+          createdAt,
+        })),
+      };
+    });
+
+  // Spikes first, then the busiest terms; drop single words already covered by a spiking phrase
+  trends.sort((a, b) => Number(b.isSpike) - Number(a.isSpike) || b.zScore - a.zScore || b.count - a.count);
+
+  return trends
+    .filter(
+      (trend) =>
+        trend.term.includes(' ') ||
+        !trends.some((other) => other.isSpike && other.count >= trend.count && other.term.split(' ').includes(trend.term))
+    )
+    .slice(0, MAX_TERMS);
+};
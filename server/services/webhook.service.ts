@@ -0,0 +1,172 @@
+import crypto from 'crypto';
+import Event from '../models/event.model';
+import { IAlert } from '../models/alert.model';
+import Webhook, { IWebhook } from '../models/webhook.model';
+import WebhookDelivery, { IWebhookDelivery } from '../models/webhookDelivery.model';
+import { alertEvents } from './alertEngine.service';
+import { checkPublicUrl } from '../utils/publicUrl';
+
+const MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '6', 10);
+const RETRY_BASE_MS = parseInt(process.env.WEBHOOK_RETRY_BASE_MS || '30000', 10);
+const REQUEST_TIMEOUT_MS = 10000;
+const WORKER_INTERVAL_MS = 15000;
+const CLAIM_MS = 3 * REQUEST_TIMEOUT_MS;
+
+export const generateWebhookSecret = () => `whsec_${crypto.randomBytes(24).toString('hex')}`;
+
+// HMAC-SHA256 over "<timestamp>.<body>", so receivers can reject replayed payloads
+export const signPayload = (secret: string, timestamp: number, body: string) =>
+  `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+
+// 30s, 1m, 2m, 4m ... with up to 10% jitter
+const retryDelay = (attempt: number) => {
+  const delay = RETRY_BASE_MS * 2 ** (attempt - 1);
+  return delay + Math.floor(Math.random() * delay * 0.1);
+};
+
+// Perform one HTTP attempt and schedule the next one if it failed
+export const attemptDelivery = async (delivery: IWebhookDelivery): Promise<IWebhookDelivery> => {
+  const webhook = await Webhook.findById(delivery.webhook).select('+secret');
+
+  if (!webhook) {
+    delivery.status = 'failed';
+    delivery.nextAttemptAt = undefined;
+    await delivery.save();
+    return delivery;
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const started = Date.now();
+  let statusCode: number | undefined;
+  let error: string | undefined;
+
+  try {
+    // Resolved again on every attempt: the host may have been pointed at an internal address since it was saved
+    const blocked = await checkPublicUrl(webhook.url);
+    if (blocked) throw new Error(blocked);
+
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'EventSentinel-Webhooks/1.0',
+        'X-Sentinel-Event': delivery.type,
+        'X-Sentinel-Delivery': String(delivery._id),
+        'X-Sentinel-Timestamp': String(timestamp),
+        'X-Sentinel-Signature': signPayload(webhook.secret, timestamp, body),
+      },
+      body,
+      // A redirect could lead anywhere, including an internal address; 3xx counts as a failed attempt
+      redirect: 'manual',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    statusCode = response.status;
+    // Only the status is kept; the receiver's response body is never stored or shown
+    await response.body?.cancel();
+  } catch (err: any) {
+    error = err.message || String(err);
+  }
+
+  delivery.attempts.push({
+    attemptedAt: new Date(started),
+    statusCode,
+    error,
+    durationMs: Date.now() - started,
+  });
+
+  if (statusCode && statusCode >= 200 && statusCode < 300) {
+    delivery.status = 'succeeded';
+    delivery.nextAttemptAt = undefined;
+  } else if (delivery.attempts.length >= MAX_ATTEMPTS || delivery.type === 'webhook.test') {
+    delivery.status = 'failed';
+    delivery.nextAttemptAt = undefined;
+  } else {
+    delivery.status = 'pending';
+    delivery.nextAttemptAt = new Date(Date.now() + retryDelay(delivery.attempts.length));
+  }
+
+  await delivery.save();
+  return delivery;
+};
+
+const alertPayload = (alert: IAlert) => ({
+  type: 'alert.raised',
+  createdAt: new Date().toISOString(),
+  data: {
+    id: String(alert._id),
+    event: String(alert.event),
+    severity: alert.severity,
+    trigger: alert.trigger,
+    message: alert.message,
+    metrics: alert.metrics,
+    evidence: alert.evidence,
+    raisedAt: alert.createdAt,
+  },
+});
+
+// Queue and send an alert to every enabled webhook of its event
+export const deliverAlert = async (alert: IAlert): Promise<IWebhookDelivery[]> => {
+  const event = await Event.findById(alert.event);
+  if (!event?.sentimentTracking?.alertMethods?.includes('webhook')) {
+    return [];
+  }
+
+  const webhooks = await Webhook.find({ event: alert.event, enabled: true });
+  const deliveries = await Promise.all(
+    webhooks.map((webhook) =>
+      WebhookDelivery.create({
+        webhook: webhook._id,
+        event: alert.event,
+        alert: alert._id,
+        type: 'alert.raised',
+        payload: alertPayload(alert),
+      })
+    )
+  );
+
+  return Promise.all(deliveries.map(attemptDelivery));
+};
+
+// Send a sample payload once, without retries
+export const sendTestEvent = async (webhook: IWebhook): Promise<IWebhookDelivery> => {
+  const delivery = await WebhookDelivery.create({
+    webhook: webhook._id,
+    event: webhook.event,
+    type: 'webhook.test',
+    payload: {
+      type: 'webhook.test',
+      createdAt: new Date().toISOString(),
+      data: {
+        event: String(webhook.event),
+        message: 'This is a test event from Event Sentinel',
+      },
+    },
+  });
+
+  return attemptDelivery(delivery);
+};
+
+// Retry deliveries whose backoff has elapsed, claiming each one so other instances skip it
+export const retryDueDeliveries = async () => {
+  for (let i = 0; i < 50; i++) {
+    const delivery = await WebhookDelivery.findOneAndUpdate(
+      { status: 'pending', nextAttemptAt: { $lte: new Date() } },
+      { $set: { nextAttemptAt: new Date(Date.now() + CLAIM_MS) } },
+      { new: true, sort: { nextAttemptAt: 1 } }
+    );
+    if (!delivery) break;
+
+    await attemptDelivery(delivery);
+  }
+};
+
+export const startWebhookWorker = () => {
+  alertEvents.on('alert', (alert: IAlert) => {
+    deliverAlert(alert).catch((error) => console.error('[webhooks]', error));
+  });
+
+  return setInterval(() => {
+    retryDueDeliveries().catch((error) => console.error('[webhooks]', error));
+  }, WORKER_INTERVAL_MS);
+};
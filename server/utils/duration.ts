@@ -0,0 +1,23 @@
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// Durations used by the event setup wizard (cooldowns and frequencies)
+const durations: { [key: string]: number } = {
+  realtime: 0,
+  '5min': 5 * MINUTE,
+  '15min': 15 * MINUTE,
+  '30min': 30 * MINUTE,
+  '1hour': HOUR,
+  hourly: HOUR,
+  '2hours': 2 * HOUR,
+  '4hours': 4 * HOUR,
+  daily: 24 * HOUR,
+};
+
+// Convert a wizard duration value (e.g. '15min', '2hours') to milliseconds
+export const durationToMs = (value: string | undefined, fallback: number = 0): number => {
+  if (!value || !(value in durations)) {
+    return fallback;
+  }
+  return durations[value];
+};
@@ -0,0 +1,39 @@
+import crypto from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+const VERSION = 'v1';
+
+// PII_ENCRYPTION_KEY is 64 hex characters; any other value is hashed into a 256-bit key
+const loadKey = (): Buffer | null => {
+  const secret = process.env.PII_ENCRYPTION_KEY;
+  if (!secret) return null;
+  return /^[0-9a-f]{64}$/i.test(secret) ? Buffer.from(secret, 'hex') : crypto.createHash('sha256').update(secret).digest();
+};
+
+const key = loadKey();
+
+export const isEncryptionConfigured = () => key !== null;
+
+// "v1:<iv>:<auth tag>:<ciphertext>", base64 parts; the tag makes tampered values fail to decrypt
+export const encryptText = (plain: string): string => {
+  if (!key) throw new Error('PII_ENCRYPTION_KEY is not set');
+
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()]);
+  return [VERSION, ...[iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64'))].join(':');
+};
+
+export const decryptText = (value: string): string => {
+  if (!key) throw new Error('PII_ENCRYPTION_KEY is not set');
+
+  const [version, iv, tag, ciphertext] = value.split(':');
+  if (version !== VERSION || !iv || !tag || !ciphertext) {
+    throw new Error('Unsupported encrypted value');
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+};
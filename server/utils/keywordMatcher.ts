@@ -0,0 +1,117 @@
+// A keyword or phrase prepared for matching: folded, tokenised and stemmed
+export interface ICompiledKeyword {
+  keyword: string;
+  stems: string[];
+}
+
+export interface IKeywordMatch {
+  keyword: string;
+  count: number;
+}
+
+// Longest suffixes first so "ments" wins over "s"
+const SUFFIXES = ['ational', 'ization', 'fulness', 'ousness', 'iveness', 'ments', 'ment', 'ness', 'ings', 'ing', 'ions', 'ion', 'edly', 'ed', 'ies', 'es', 'ly', 'er', 's'];
+const MIN_STEM = 3;
+
+// Lowercase and strip accents so "Café" and "cafe" are the same word
+export const foldCase = (text: string): string =>
+  text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+// Split on whitespace and ASCII/general punctuation, keeping letters of any script
+export const tokenize = (text: string): string[] =>
+  foldCase(text)
+    .split(/[\s!-\/:-@[-`{-~\u2000-\u206f\u3000-\u303f]+/)
+    .filter(Boolean);
+
+// Light suffix-stripping stemmer: "crashing", "crashed" and "crashes" all become "crash"
+export const stem = (word: string): string => {
+  let result = word;
+
+  for (const suffix of SUFFIXES) {
+    if (result.endsWith(suffix) && result.length - suffix.length >= MIN_STEM) {
+      result = suffix === 'ies' ? `${result.slice(0, -3)}y` : result.slice(0, -suffix.length);
+      break;
+    }
+  }
+
+  // "stopped" -> "stopp" -> "stop"
+  const last = result[result.length - 1];
+  if (result.length > MIN_STEM && last === result[result.length - 2] && !'lsz'.includes(last)) {
+    result = result.slice(0, -1);
+  }
+
+  // "issue" and "issues" both end up as "issu"
+  if (result.length > MIN_STEM && result.endsWith('e')) {
+    result = result.slice(0, -1);
+  }
+
+  return result;
+};
+
+// Optimal string alignment distance, stopping early once it exceeds max
+const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const twoBack = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, twoBack[j - 2] + 1);
+      }
+      row[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > max) return max + 1;
+  }
+
+  return row[b.length];
+};
+
+// Short words must match exactly: one edit turns "sound" into "found" and "wifi" into "wife".
+// Longer ones tolerate one typo from 6 letters and two from 9.
+const allowedTypos = (word: string) => (word.length >= 9 ? 2 : word.length >= 6 ? 1 : 0);
+
+// Typos are rarely in the first letter, so a different one means a different word
+const sameWord = (token: string, keywordStem: string) => {
+  if (token === keywordStem) return true;
+  const typos = allowedTypos(keywordStem);
+  return typos > 0 && token[0] === keywordStem[0] && editDistance(token, keywordStem, typos) <= typos;
+};
+
+export const compileKeywords = (keywords: string[]): ICompiledKeyword[] =>
+  keywords
+    .map((keyword) => ({ keyword, stems: tokenize(keyword).map(stem) }))
+    .filter((compiled) => compiled.stems.length > 0);
+
+// Count non-overlapping occurrences of each keyword or phrase in the text
+export const matchKeywords = (text: string, keywords: ICompiledKeyword[]): IKeywordMatch[] => {
+  if (!text || !keywords.length) return [];
+
+  const tokens = tokenize(text).map(stem);
+  const matches: IKeywordMatch[] = [];
+
+  for (const { keyword, stems } of keywords) {
+    let count = 0;
+
+    for (let i = 0; i <= tokens.length - stems.length; i++) {
+      if (stems.every((keywordStem, offset) => sameWord(tokens[i + offset], keywordStem))) {
+        count++;
+        i += stems.length - 1;
+      }
+    }
+
+    if (count) matches.push({ keyword, count });
+  }
+
+  return matches;
+};
@@ -0,0 +1,118 @@
+export type PIIType = 'email' | 'card' | 'aadhaar' | 'phone' | 'name';
+
+export const PII_TYPES: PIIType[] = ['email', 'card', 'aadhaar', 'phone', 'name'];
+
+export interface IPIIRedaction {
+  text: string;
+  types: PIIType[];
+}
+
+// Known people's names compiled for matching
+export interface ICompiledNames {
+  full: RegExp | null;
+  parts: RegExp | null;
+}
+
+const EMAIL = /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g;
+// 13-19 digits, optionally grouped by spaces or dashes; only Luhn-valid runs count as cards
+const CARD = /(?<![\d-])\d(?:[ -]?\d){12,18}(?![\d-])/g;
+// 12 digits as 4-4-4, never starting with 0 or 1
+const AADHAAR = /(?<![\d-])[2-9]\d{3}[ -]?\d{4}[ -]?\d{4}(?![\d-])/g;
+// Candidate digit runs of 10-13 digits; only those shaped like a phone number are redacted
+const PHONE = /(?<![\w+(])\+?\(?\d(?:[ ().-]{0,2}\d){9,14}(?!\w)/g;
+const PHONE_DIGITS = { min: 10, max: 13 };
+const PHONE_SHAPES = [
+  // +91 98765 43210, +44 20 7946 0958
+  /^\+\d/,
+  // 9876543210, 98765 43210
+  /^[6-9]\d{4}[ -]?\d{5}$/,
+  // 09876543210, 022-2345-6789, (022) 2345 6789
+  /^\(?0\d{2,4}\)?[ -]?\d{3,4}[ -]?\d{4,5}$/,
+  // 555-123-4567, 555.123.4567
+  /^\d{3}[ .-]\d{3}[ .-]\d{4}$/,
+];
+// Dates such as 2025-04-05 followed by a time would otherwise have enough digits to pass as a phone number
+const DATE = /\d{4}-\d{2}-\d{2}/;
+// Name parts shorter than this ("Al", "Jo") match too many ordinary words to redact on their own
+const MIN_NAME_PART = 3;
+const SENTENCE_START = /(?:^|[.!?:;"\n]|[.!?]["')\]])\s*$/;
+
+const digitsOf = (value: string) => value.replace(/\D/g, '');
+
+const passesLuhn = (digits: string): boolean => {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const nameWords = (name: string) => name.trim().split(/\s+/).filter(Boolean);
+
+// Full names match in any case. Single first or last names ("ask Priya") are ordinary words too often
+// ("Will", "Grace", "Rose"), so they are matched only when capitalised and only for the names in partNames.
+export const compileNames = (fullNames: string[], partNames: string[] = []): ICompiledNames => {
+  const full = new Set<string>();
+  const parts = new Set<string>();
+
+  fullNames.forEach((name) => {
+    const words = nameWords(name);
+    if (words.length > 1) full.add(words.map(escapeRegExp).join('\\s+'));
+  });
+  partNames.forEach((name) =>
+    nameWords(name)
+      .filter((word) => word.length >= MIN_NAME_PART)
+      .forEach((word) => parts.add(escapeRegExp(word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())))
+  );
+
+  // Longest alternatives first so "Priya Sharma" wins over "Priya"
+  const toPattern = (alternatives: Set<string>, flags: string) =>
+    alternatives.size
+      ? new RegExp(
+          `(?<![\\p{L}\\p{N}])(?:${[...alternatives].sort((a, b) => b.length - a.length).join('|')})(?![\\p{L}\\p{N}])`,
+          flags
+        )
+      : null;
+  return { full: toPattern(full, 'giu'), parts: toPattern(parts, 'gu') };
+};
+
+// Replace personal data with placeholders such as "[email]", returning which kinds were found
+export const redactPII = (text: string, names: ICompiledNames = { full: null, parts: null }): IPIIRedaction => {
+  const found = new Set<PIIType>();
+  const replace = (
+    input: string,
+    pattern: RegExp,
+    type: PIIType,
+    accept: (match: string, offset: number, input: string) => boolean = () => true
+  ) =>
+    input.replace(pattern, (match, ...rest) => {
+      if (!accept(match, rest[rest.length - 2], input)) return match;
+      found.add(type);
+      return `[${type}]`;
+    });
+
+  // Most specific first: the digits of a card number would otherwise also look like a phone number
+  let redacted = replace(text, EMAIL, 'email');
+  redacted = replace(redacted, CARD, 'card', (match) => passesLuhn(digitsOf(match)));
+  redacted = replace(redacted, AADHAAR, 'aadhaar');
+  redacted = replace(redacted, PHONE, 'phone', (match) => {
+    const length = digitsOf(match).length;
+    if (length < PHONE_DIGITS.min || length > PHONE_DIGITS.max || DATE.test(match)) return false;
+    return PHONE_SHAPES.some((shape) => shape.test(match));
+  });
+  if (names.full) redacted = replace(redacted, names.full, 'name');
+  // A capitalised first word is just the start of a sentence: "Will the wifi be fixed?"
+  if (names.parts) {
+    const midSentence = (_match: string, offset: number, input: string) => !SENTENCE_START.test(input.slice(0, offset));
+    redacted = replace(redacted, names.parts, 'name', midSentence);
+  }
+
+  return { text: redacted, types: PII_TYPES.filter((type) => found.has(type)) };
+};
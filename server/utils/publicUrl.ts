@@ -0,0 +1,55 @@
+import { promises as dns } from 'dns';
+import net from 'net';
+
+// Loopback, private, link-local and other non-routable ranges a webhook must never reach
+const BLOCKED = new net.BlockList();
+[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+].forEach(([address, prefix]) => BLOCKED.addSubnet(address as string, prefix as number, 'ipv4'));
+[
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+].forEach(([address, prefix]) => BLOCKED.addSubnet(address as string, prefix as number, 'ipv6'));
+
+const isBlocked = (address: string) => {
+  // IPv4-mapped IPv6 such as ::ffff:127.0.0.1
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return BLOCKED.check(mapped[1], 'ipv4');
+  return BLOCKED.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+};
+
+// Why a URL may not be called from the server, or null when every address it resolves to is public
+export const checkPublicUrl = async (value: string): Promise<string | null> => {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return 'Please enter a valid http(s) URL';
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return 'Please enter a valid http(s) URL';
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  let addresses: { address: string }[];
+  try {
+    addresses = await dns.lookup(hostname, { all: true, verbatim: true });
+  } catch {
+    return `Could not resolve ${hostname}`;
+  }
+  if (!addresses.length || addresses.some(({ address }) => isBlocked(address))) {
+    return 'URL must point to a public address';
+  }
+  return null;
+};
@@ -0,0 +1,19 @@
+import crypto from 'crypto';
+import { redis } from './redis';
+
+// Delete the key only while it still holds our token, so a lock that expired and was taken by another instance survives
+const RELEASE_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0`;
+
+// Take a lock for ttlMs; resolves to the token needed to release it, or null when someone else holds it
+export const acquireLock = async (key: string, ttlMs: number): Promise<string | null> => {
+  const token = crypto.randomBytes(16).toString('hex');
+  return (await redis.set(key, token, 'PX', ttlMs, 'NX')) === 'OK' ? token : null;
+};
+
+export const releaseLock = async (key: string, token: string): Promise<void> => {
+  await redis.eval(RELEASE_SCRIPT, 1, key, token);
+};
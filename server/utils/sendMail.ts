@@ -25,7 +25,7 @@ const sendMail = async(options : EmailOptions): Promise <void> =>{
 
     const {email,subject,template,data} = options;
 
-    const html:string = template;
+    const html:string = await ejs.renderFile(path.join(__dirname,'../mails',template),data);
 
     const mailOptions = {
         from: `"Data Science Club HIT" <${process.env.SMTP_MAIL}>`,